@@ -1,14 +1,50 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { Settings, Timer, Activity, Trash2, Play, Pause } from 'lucide-react';
-import { Tab, Lap, AppSettings } from './types';
-import { DEFAULT_SETTINGS } from './constants';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Settings, Timer, Activity, Trash2, Play, Pause, History, Pencil, Hand } from 'lucide-react';
+import { Tab, Lap, LapEdit, LapEditLog, LapSource, SettingsPreset, AppSettings, Session, OfflineGap, Athlete, WorkoutPhase, StartStage, StartRecord, ClockSyncSample, CapturedSnapshot, CapturedSlitScan, FrameSource, ReplayRun, CameraSettings, CameraStatus } from './types';
+import { DEFAULT_SETTINGS, CHECKPOINT_HEARTBEAT_MS, START_STAGE_MS, START_HOLD_MIN_MS, START_HOLD_MAX_MS, CLOCK_SYNC_INTERVAL_MS, CLOCK_SYNC_SAMPLES, GATE_LINK_TIMEOUT_MS } from './constants';
+import {
+  computeLapStats, computeLaneStats, computeAthleteStats, getReactionTime, getSessionEndReason, isLapTargetReached, isTimeTargetReached, areLanesFinished, getOfflineDuration, getCompletedLaps, getLeadingLaneId,
+} from './utils/lapStats';
+import { clockNow } from './utils/frameTiming';
+import { getPhaseEndsAt, getNextPhase, isWorkPhaseComplete } from './utils/workout';
+import { measureClockSync, getBestClockSync, getSyncUncertainty, toLocalClock } from './utils/clockSync';
+import { saveSession, listSessions, defaultSessionName } from './services/sessionStore';
+import { listAthletes } from './services/athleteStore';
+import { SessionCheckpoint, readCheckpoint, writeCheckpoint, clearCheckpoint } from './services/sessionCheckpoint';
+import { saveLapSnapshot } from './services/snapshotStore';
+import { saveSlitScan } from './services/slitScanStore';
+import { FrameSourceControl, listCameras } from './services/frameSource';
+import { loadCameraSettings, saveCameraSettings } from './services/cameraPrefs';
+import { loadSettings, saveSettings, loadPresets, savePresets, applyPreset } from './services/settingsStore';
+import { SharedPreset, readPresetHash } from './services/presetLink';
+import { DiffSample } from './utils/calibration';
+import { applyLapEdit, deleteLap, recordLapEdit, restoreOriginalLaps } from './utils/lapEdits';
+import { getShortcutAction, isEditableTarget } from './utils/shortcuts';
 import MotionEngine from './components/MotionEngine';
 import DisplayTab from './components/DisplayTab';
 import ConfigTab from './components/ConfigTab';
+import HistoryTab from './components/HistoryTab';
+import ResumePrompt from './components/ResumePrompt';
+import PresetImportPrompt from './components/PresetImportPrompt';
+import CalibrationWizard from './components/CalibrationWizard';
+import AthletePicker from './components/AthletePicker';
+import AthleteRoster from './components/AthleteRoster';
+import AudioFeedback from './components/AudioFeedback';
+import StartSequenceOverlay from './components/StartSequenceOverlay';
+import RemoteDisplay from './components/RemoteDisplay';
+import SourcePicker from './components/SourcePicker';
+import ReplayControls from './components/ReplayControls';
+import ReplayComparison from './components/ReplayComparison';
+import LapEditor from './components/LapEditor';
+import { unlockAudio, playCue, speak } from './services/audioFeedback';
+import { RemoteChannel, RemoteSnapshot, RemoteStatus, openRemoteChannel, parseRemoteHash } from './services/remoteLink';
+
+// Id, name and athlete of the session being recorded
+type SessionIdentity = Pick<Session, 'id' | 'name' | 'athleteId'>;
 
 // Internal Component for the Live Timer Overlay
 // Uses direct DOM manipulation for 60fps performance (avoids React re-renders)
-const TimerOverlay = ({ isMonitoring, lastActivity, hasLaps }: { isMonitoring: boolean, lastActivity: number, hasLaps: boolean }) => {
+const TimerOverlay = ({ isMonitoring, lastActivity, hasLaps, offlineGaps }: { isMonitoring: boolean, lastActivity: number, hasLaps: boolean, offlineGaps: OfflineGap[] }) => {
   const displayRef = React.useRef<HTMLSpanElement>(null);
 
   React.useEffect(() => {
@@ -20,7 +56,7 @@ const TimerOverlay = ({ isMonitoring, lastActivity, hasLaps }: { isMonitoring: b
     let frameId: number;
     const update = () => {
       if (displayRef.current) {
-        displayRef.current.textContent = ((Date.now() - lastActivity) / 1000).toFixed(2);
+        displayRef.current.textContent = ((clockNow() - lastActivity) / 1000).toFixed(2);
       }
       frameId = requestAnimationFrame(update);
     };
@@ -47,6 +83,12 @@ const TimerOverlay = ({ isMonitoring, lastActivity, hasLaps }: { isMonitoring: b
           <span ref={displayRef}>0.00</span>
           <span className="text-sm text-slate-500 ml-1 font-sans font-medium">s</span>
         </div>
+
+        {offlineGaps.length > 0 && (
+          <div className="mt-1.5 text-[10px] uppercase tracking-wider font-bold text-amber-400/80">
+            Resumed · {(getOfflineDuration(offlineGaps) / 1000).toFixed(1)}s offline
+          </div>
+        )}
       </div>
     </div>
   );
@@ -61,19 +103,81 @@ export default function App() {
   };
 
   const [activeTab, setActiveTab] = useState<Tab>(getInitialTab);
-  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  // Remote scoreboard mode (`#display?remote[=ws://…]`): relay URL, or null on the sensor device
+  const [remoteRelay, setRemoteRelay] = useState<string | null>(() => parseRemoteHash(window.location.hash));
+  const [remoteStatus, setRemoteStatus] = useState<RemoteStatus>('closed');
+  const remoteChannelRef = useRef<RemoteChannel | null>(null);
+  // Two-camera timing: best clock sync with the start gate (finish gate only) and whether the other gate is reachable
+  const [clockSync, setClockSync] = useState<ClockSyncSample | null>(null);
+  const [gateLinked, setGateLinked] = useState(false);
+  const clockSyncRef = useRef<ClockSyncSample | null>(null);
+  const gateChannelRef = useRef<RemoteChannel | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // Named settings for venues and setups, and a preset offered by the link the app was opened with
+  const [presets, setPresets] = useState<SettingsPreset[]>(loadPresets);
+  const [pendingPreset, setPendingPreset] = useState<SharedPreset | null>(() => readPresetHash(window.location.hash));
   const [laps, setLaps] = useState<Lap[]>([]);
+  const hasLaps = laps.length > 0;
+  // Manual corrections to `laps`, with the laps as detected; null while unedited
+  const [lapEditLog, setLapEditLog] = useState<LapEditLog | null>(null);
+  const [showLapEditor, setShowLapEditor] = useState(false);
+  // Multi-lane mode: laps per lane id (`laps` then only holds the common start mark)
+  const [laneLaps, setLaneLaps] = useState<Record<string, Lap[]>>({});
   const [isMonitoring, setIsMonitoring] = useState(false);
+  // Camera or video file; replays of a file are kept to compare settings
+  const [frameSource, setFrameSource] = useState<FrameSource>({ kind: 'camera' });
+  const frameSourceControlRef = useRef<FrameSourceControl | null>(null);
+  const [replayRuns, setReplayRuns] = useState<ReplayRun[]>([]);
+  const [showReplayComparison, setShowReplayComparison] = useState(false);
+  const [camera, setCamera] = useState<CameraSettings>(() => loadCameraSettings());
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus | null>(null);
+  const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
+  // Interval workouts: current phase, null when no workout is running
+  const [workoutPhase, setWorkoutPhase] = useState<WorkoutPhase | null>(null);
+  // Ready - Set - Go start: current stage (null when idle), when Go sounded and whether anyone moved early
+  const [startStage, setStartStage] = useState<StartStage | null>(null);
+  const [goAt, setGoAt] = useState<number | null>(null);
+  const [falseStart, setFalseStart] = useState(false);
   const [lastActivity, setLastActivity] = useState<number>(0);
+  const [offlineGaps, setOfflineGaps] = useState<OfflineGap[]>([]);
+  // Checkpoint left behind by a session that was interrupted (tab killed, crash)
+  const [pendingResume, setPendingResume] = useState<SessionCheckpoint | null>(readCheckpoint);
   const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const calibrationSinkRef = useRef<((sample: DiffSample) => void) | null>(null);
+  // Archived session currently opened from History (shown read-only in DisplayTab)
+  const [reviewSession, setReviewSession] = useState<Session | null>(null);
+  const [athletes, setAthletes] = useState<Athlete[]>([]);
+  const [selectedAthleteId, setSelectedAthleteId] = useState<string | null>(null);
+  const [showRoster, setShowRoster] = useState(false);
+  // Earlier sessions of the selected athlete, for the all-time figures on the display
+  const [athleteSessions, setAthleteSessions] = useState<Session[]>([]);
+
+  // Identity of the session being recorded; created lazily so every run of laps gets archived
+  const sessionRef = useRef<SessionIdentity | null>(null);
+  const wasMonitoringRef = useRef(false);
+  // Checkpoint crossings of the lap in progress, attached to the lap when it completes
+  const pendingSplitsRef = useRef<(number | null)[]>([]);
+
+  // Motion before Go is a false start rather than a lap
+  const isStartPending = startStage === 'ready' || startStage === 'set';
+
+  // Gates time single runs; lanes and remote scoreboards never act as one
+  const gateRole = settings.laneMode || remoteRelay !== null ? 'off' : settings.gateRole;
+
+  // Workouts take over from the lap/time targets; lanes and gate runs always use the plain targets
+  const activeWorkout = settings.laneMode || gateRole !== 'off' ? null : settings.workout;
+  const isWorkoutDone = workoutPhase?.kind === 'done';
 
-  // Sync URL hash with active tab
+  // Sync URL hash with active tab (the remote scoreboard keeps its own hash)
   useEffect(() => {
+    if (remoteRelay !== null) return;
     const newHash = activeTab === Tab.DISPLAY ? '#display' : '#monitor';
     if (window.location.hash !== newHash) {
       window.history.replaceState(null, '', newHash);
     }
-  }, [activeTab]);
+  }, [activeTab, remoteRelay]);
 
   // Listen for browser back/forward
   useEffect(() => {
@@ -81,14 +185,229 @@ export default function App() {
       const hash = window.location.hash.toLowerCase();
       if (hash === '#display') setActiveTab(Tab.DISPLAY);
       else setActiveTab(Tab.CONFIG);
+      setRemoteRelay(parseRemoteHash(window.location.hash));
     };
     window.addEventListener('hashchange', handleHashChange);
     return () => window.removeEventListener('hashchange', handleHashChange);
   }, []);
 
+  // Leaving the display always ends a history review
+  useEffect(() => {
+    if (activeTab !== Tab.DISPLAY) setReviewSession(null);
+  }, [activeTab]);
+
+  // The session's id and name as the History preview shows them; unlike ensureSession it
+  // doesn't claim an id for a session that has none yet, so it is safe to call while rendering
+  const previewSessionIdentity = (startedAt: number): SessionIdentity =>
+    sessionRef.current ?? { id: 'current', name: defaultSessionName(startedAt), athleteId: selectedAthleteId ?? undefined };
+
+  const ensureSession = useCallback((startedAt: number) => {
+    if (!sessionRef.current) {
+      sessionRef.current = { id: crypto.randomUUID(), name: defaultSessionName(startedAt), athleteId: selectedAthleteId ?? undefined };
+    }
+    return sessionRef.current;
+  }, [selectedAthleteId]);
+
+  const refreshAthletes = useCallback(() => {
+    listAthletes()
+      .then((roster) => {
+        setAthletes(roster);
+        // Drop the selection if that athlete was removed
+        setSelectedAthleteId(id => (id && roster.some(a => a.id === id) ? id : null));
+      })
+      .catch((e) => {
+        console.error("Failed to load athletes:", e);
+      });
+  }, []);
+
+  useEffect(() => {
+    refreshAthletes();
+  }, [refreshAthletes]);
+
+  // Reload the athlete's history when they are picked and whenever a run stops (and gets archived)
+  useEffect(() => {
+    if (!selectedAthleteId) {
+      setAthleteSessions([]);
+      return;
+    }
+    let cancelled = false;
+    listSessions()
+      .then((sessions) => {
+        if (cancelled) return;
+        // The session on screen is compared against the athlete's other sessions
+        const currentId = sessionRef.current?.id;
+        setAthleteSessions(sessions.filter(s => s.athleteId === selectedAthleteId && s.id !== currentId));
+      })
+      .catch((e) => {
+        console.error("Failed to load athlete history:", e);
+      });
+    return () => { cancelled = true; };
+  }, [selectedAthleteId, isMonitoring, hasLaps]);
+
+  // Snapshot of the current session as it would be archived right now, under the given id and name
+  const buildSession = useCallback((sessionLaps: Lap[], identity: SessionIdentity): Session => {
+    const endedAt = clockNow();
+    return {
+      ...identity,
+      laps: sessionLaps,
+      settings,
+      startedAt: sessionLaps[0].timestamp,
+      endedAt,
+      endReason: isWorkoutDone
+        ? 'workoutComplete'
+        : settings.laneMode && areLanesFinished(settings.lanes, laneLaps, settings.targetLaps)
+          ? 'targetLaps'
+          : getSessionEndReason(sessionLaps, activeWorkout ? 0 : settings.targetLaps, activeWorkout ? 0 : settings.targetDuration, endedAt),
+      offlineGaps,
+      ...(settings.laneMode && { laneLaps }),
+      ...(goAt !== null && {
+        start: { goAt, falseStart, reactionTime: getReactionTime(goAt, sessionLaps, settings.laneMode ? laneLaps : undefined) },
+      }),
+      ...(lapEditLog && { lapEdits: lapEditLog }),
+    };
+  }, [settings, offlineGaps, laneLaps, isWorkoutDone, activeWorkout, goAt, falseStart, lapEditLog]);
+
+  // Persist the current session to the history store
+  const archiveSession = useCallback((sessionLaps: Lap[]) => {
+    if (sessionLaps.length === 0) return;
+
+    saveSession(buildSession(sessionLaps, ensureSession(sessionLaps[0].timestamp))).catch((e) => {
+      console.error("Failed to save session:", e);
+    });
+  }, [buildSession, ensureSession]);
+
+  // Archive whenever monitoring stops (target reached or manual stop)
+  useEffect(() => {
+    if (wasMonitoringRef.current && !isMonitoring) {
+      archiveSession(laps);
+    }
+    wasMonitoringRef.current = isMonitoring;
+  }, [isMonitoring, laps, archiveSession]);
+
+  // The edit and its log entry are worked out from the same laps, the ones the editor shows;
+  // stats follow from the laps
+  const handleLapEdit = useCallback((edit: LapEdit) => {
+    setLapEditLog(recordLapEdit(lapEditLog, laps, edit));
+    setLaps(applyLapEdit(laps, edit));
+  }, [laps, lapEditLog]);
+
+  const handleRestoreLaps = useCallback(() => {
+    if (!lapEditLog) return;
+    setLaps(prev => restoreOriginalLaps(prev, lapEditLog));
+    setLapEditLog(null);
+  }, [lapEditLog]);
+
+  // Edits to a stopped session update its archived copy
+  const archivedEditLogRef = useRef<LapEditLog | null>(null);
+  useEffect(() => {
+    if (isMonitoring || archivedEditLogRef.current === lapEditLog) return;
+    archivedEditLogRef.current = lapEditLog;
+    archiveSession(laps);
+  }, [isMonitoring, lapEditLog, laps, archiveSession]);
+
+  // Each finished replay of a file is kept so its laps can be compared with other settings
+  const wasReplayingRef = useRef(false);
+  useEffect(() => {
+    if (wasReplayingRef.current && !isMonitoring && frameSource.kind === 'file') {
+      const replayLaps = settings.laneMode
+        ? Object.values(laneLaps).flatMap(getCompletedLaps).sort((a, b) => a.timestamp - b.timestamp)
+        : getCompletedLaps(laps);
+      setReplayRuns(runs => [...runs, {
+        id: crypto.randomUUID(),
+        clipName: frameSource.file.name,
+        settings,
+        lapDurations: replayLaps.map(l => l.duration),
+        finishedAt: Date.now(),
+      }]);
+    }
+    wasReplayingRef.current = isMonitoring;
+  }, [isMonitoring, frameSource, laps, laneLaps, settings]);
+
+  // A different clip starts a fresh comparison
+  const handleSourceChange = useCallback((source: FrameSource) => {
+    setFrameSource(source);
+    setReplayRuns([]);
+  }, []);
+
+  // Device labels are only listed once the camera is allowed, so the list is read when it opens
+  const refreshCameraDevices = useCallback(() => {
+    listCameras()
+      .then(setCameraDevices)
+      .catch((e) => console.warn('Failed to list cameras:', e));
+  }, []);
+
+  useEffect(() => {
+    navigator.mediaDevices?.addEventListener('devicechange', refreshCameraDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshCameraDevices);
+  }, [refreshCameraDevices]);
+
+  const handleCameraReady = useCallback((status: CameraStatus) => {
+    setCameraStatus(status);
+    refreshCameraDevices();
+    // The remembered camera was gone and another opened: that one becomes the remembered camera
+    if (camera.deviceId && status.deviceId !== camera.deviceId) {
+      const deviceSettings = loadCameraSettings(status.deviceId);
+      saveCameraSettings(status.deviceId, deviceSettings);
+      setCamera(deviceSettings);
+    }
+  }, [camera.deviceId, refreshCameraDevices]);
+
+  // Switching device brings back that device's own settings; other changes are saved for the current one
+  const handleCameraChange = useCallback((next: CameraSettings) => {
+    if (next.deviceId !== camera.deviceId) {
+      const deviceSettings = loadCameraSettings(next.deviceId);
+      saveCameraSettings(next.deviceId, deviceSettings);
+      setCamera(deviceSettings);
+      return;
+    }
+    saveCameraSettings(next.deviceId ?? cameraStatus?.deviceId ?? null, next);
+    setCamera(next);
+  }, [camera.deviceId, cameraStatus]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    savePresets(presets);
+  }, [presets]);
+
+  // Saving under an existing name replaces that preset
+  const handleSavePreset = useCallback((name: string) => {
+    setPresets(prev => {
+      const existing = prev.find(p => p.name === name);
+      const preset: SettingsPreset = { id: existing?.id ?? crypto.randomUUID(), name, settings, savedAt: Date.now() };
+      return existing ? prev.map(p => (p.id === existing.id ? preset : p)) : [...prev, preset];
+    });
+  }, [settings]);
+
+  const handleApplyPreset = useCallback((id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) setSettings(prev => applyPreset(prev, preset.settings));
+  }, [presets]);
+
+  const handleDeletePreset = useCallback((id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  }, []);
+
+  // A shared preset is added (replacing one with the same name) and applied
+  const handleImportPreset = useCallback((shared: SharedPreset) => {
+    setPresets(prev => [
+      ...prev.filter(p => p.name !== shared.name),
+      { id: crypto.randomUUID(), name: shared.name, settings: shared.settings, savedAt: Date.now() },
+    ]);
+    setSettings(prev => applyPreset(prev, shared.settings));
+  }, []);
+
+  // The clip ran out: end the session as a manual stop would
+  const handleSourceEnded = useCallback(() => {
+    setIsMonitoring(false);
+    setStartStage(null);
+  }, []);
+
   // Check for time-based session completion
   useEffect(() => {
-    if (!isMonitoring || laps.length === 0 || settings.targetDuration === 0) {
+    if (!isMonitoring || laps.length === 0 || settings.targetDuration === 0 || activeWorkout) {
       return;
     }
 
@@ -96,20 +415,71 @@ export default function App() {
     const targetDurationMs = settings.targetDuration * 1000;
 
     const checkInterval = setInterval(() => {
-      const elapsedTime = Date.now() - sessionStartTime;
+      const elapsedTime = clockNow() - sessionStartTime;
       if (elapsedTime >= targetDurationMs) {
         setIsMonitoring(false);
       }
     }, 100); // Check every 100ms for accuracy
 
     return () => clearInterval(checkInterval);
-  }, [isMonitoring, laps, settings.targetDuration]);
+  }, [isMonitoring, laps, settings.targetDuration, activeWorkout]);
+
+  // Move the workout on when a phase ends: lap-count work on the completing lap,
+  // timed work and rest on the clock. A new set starts with its own start mark.
+  useEffect(() => {
+    if (!isMonitoring || !activeWorkout || !workoutPhase || workoutPhase.kind === 'done') return;
+
+    const advance = (endedAt: number) => {
+      const next = getNextPhase(workoutPhase, activeWorkout, endedAt);
+      setWorkoutPhase(next);
+      pendingSplitsRef.current = [];
+      if (next.kind === 'done') {
+        setIsMonitoring(false);
+      } else if (next.kind === 'work') {
+        setLastActivity(endedAt);
+        setLaps(prev => [...prev, { id: crypto.randomUUID(), timestamp: endedAt, duration: 0, set: next.setIndex }]);
+      }
+    };
+
+    if (workoutPhase.kind === 'work' && activeWorkout.workType === 'laps') {
+      if (isWorkPhaseComplete(workoutPhase, activeWorkout, laps)) advance(laps[laps.length - 1].timestamp);
+      return;
+    }
+
+    const endsAt = getPhaseEndsAt(workoutPhase, activeWorkout) ?? clockNow();
+    const timeout = setTimeout(() => advance(endsAt), Math.max(0, endsAt - clockNow()));
+    return () => clearTimeout(timeout);
+  }, [isMonitoring, activeWorkout, workoutPhase, laps]);
+
+  // Core logic to record a lap, from a camera crossing or a manual input
+  const handleMotionTriggered = useCallback((timestamp: number, source: LapSource = 'camera') => {
+    if (isStartPending) {
+      setFalseStart(true);
+      return;
+    }
+    // The start gate only reports its crossings; the finish gate turns them into runs
+    if (gateRole === 'start') {
+      gateChannelRef.current?.send({ type: 'gateStart', id: crypto.randomUUID(), at: timestamp });
+      setLastActivity(timestamp);
+      return;
+    }
+    const sync = gateRole === 'finish' ? clockSyncRef.current : null;
+    // Crossings during a rest (or after the workout) don't count
+    if (activeWorkout && workoutPhase?.kind !== 'work') return;
+    const setIndex = activeWorkout ? workoutPhase?.setIndex : undefined;
+
+    // Taken outside the updater so a double-invoked updater sees the same splits
+    const splits = pendingSplitsRef.current;
+    pendingSplitsRef.current = [];
+    const checkpointCount = settings.checkpoints.length;
 
-  // Core logic to record a lap
-  const handleMotionTriggered = useCallback((timestamp: number) => {
     setLastActivity(timestamp);
     setLaps((prevLaps) => {
       const lastLap = prevLaps[prevLaps.length - 1];
+      // A finish crossing only counts while a run started at the start gate is pending
+      if (gateRole === 'finish' && lastLap?.duration !== 0) return prevLaps;
+      // A manual input is stamped on a different clock path and can land before the last crossing
+      if (lastLap && timestamp <= lastLap.timestamp) return prevLaps;
       let duration = 0;
 
       if (lastLap) {
@@ -120,49 +490,208 @@ export default function App() {
         id: crypto.randomUUID(),
         timestamp,
         duration,
+        source,
       };
+      if (setIndex !== undefined) newLap.set = setIndex;
+      if (sync) newLap.uncertainty = getSyncUncertainty(sync);
+
+      // The start mark has no sectors behind it
+      if (lastLap && checkpointCount > 0) {
+        newLap.splits = Array.from({ length: checkpointCount }, (_, i) => splits[i] ?? null);
+      }
 
       const nextLaps = [...prevLaps, newLap];
       const completedLaps = nextLaps.filter(l => l.duration > 0).length;
 
-      // Check if target reached
-      if (settings.targetLaps > 0 && completedLaps >= settings.targetLaps) {
+      // Check if target reached (workouts end through their phases instead)
+      if (!activeWorkout && settings.targetLaps > 0 && completedLaps >= settings.targetLaps) {
         setIsMonitoring(false);
       }
 
       return nextLaps;
     });
-  }, [settings.targetLaps]);
+  }, [settings.targetLaps, settings.checkpoints.length, activeWorkout, workoutPhase, isStartPending, gateRole]);
+
+  // Finish gate: a start gate crossing, moved onto this device's clock, becomes the start mark of a run
+  const handleGateStart = useCallback((remoteAt: number) => {
+    if (!isMonitoring) return;
+    const sync = clockSyncRef.current;
+    if (!sync) {
+      console.warn('Start gate crossing received before the clocks were synced; ignored');
+      return;
+    }
+    const at = toLocalClock(remoteAt, sync);
+    setLastActivity(at);
+    setLaps((prev) => {
+      // A new start before the finish (a restarted run) replaces the pending one
+      const lastLap = prev[prev.length - 1];
+      const base = lastLap?.duration === 0 ? prev.slice(0, -1) : prev;
+      return [...base, { id: crypto.randomUUID(), timestamp: at, duration: 0 }];
+    });
+  }, [isMonitoring]);
+  const handleGateStartRef = useRef(handleGateStart);
+  handleGateStartRef.current = handleGateStart;
+
+  // Multi-lane mode: each lane keeps its own laps and stops counting once it reaches the target
+  const handleLaneTriggered = useCallback((laneId: string, timestamp: number) => {
+    if (isStartPending) {
+      setFalseStart(true);
+      return;
+    }
+    setLastActivity(timestamp);
+    // A lane crossing after a mid-session reset starts the session clock
+    setLaps(prev => (prev.length > 0 ? prev : [{ id: crypto.randomUUID(), timestamp, duration: 0 }]));
+    setLaneLaps((prev) => {
+      const prevLaneLaps = prev[laneId] ?? [];
+      if (isLapTargetReached(prevLaneLaps, settings.targetLaps)) return prev;
+
+      const lastLap = prevLaneLaps[prevLaneLaps.length - 1];
+      const newLap: Lap = {
+        id: crypto.randomUUID(),
+        timestamp,
+        duration: lastLap ? timestamp - lastLap.timestamp : 0,
+        source: 'camera',
+      };
+      const next = { ...prev, [laneId]: [...prevLaneLaps, newLap] };
+
+      // Session ends when every lane has reached the target
+      if (areLanesFinished(settings.lanes, next, settings.targetLaps)) {
+        setIsMonitoring(false);
+      }
+
+      return next;
+    });
+  }, [settings.targetLaps, settings.lanes, isStartPending]);
+
+  // Only the first crossing of each checkpoint within a lap counts
+  const handleCheckpointTriggered = useCallback((index: number, timestamp: number) => {
+    if (isStartPending || (activeWorkout && workoutPhase?.kind !== 'work')) return;
+    if (pendingSplitsRef.current[index] != null) return;
+    const splits = [...pendingSplitsRef.current];
+    splits[index] = timestamp;
+    pendingSplitsRef.current = splits;
+  }, [activeWorkout, workoutPhase, isStartPending]);
 
   const resetLaps = useCallback(() => {
+    // A stopped session was already archived when monitoring ended
+    if (isMonitoring) archiveSession(laps);
+    sessionRef.current = null;
+    pendingSplitsRef.current = [];
     setLaps([]);
+    setLapEditLog(null);
+    // Nothing to re-archive: the session is over and the next one has no edits yet
+    archivedEditLogRef.current = null;
+    setLaneLaps({});
+    setWorkoutPhase(null);
+    setStartStage(null);
+    setGoAt(null);
     setLastActivity(0);
-  }, []);
+    setOfflineGaps([]);
+  }, [isMonitoring, laps, archiveSession]);
+
+  // Stamps the start of a fresh session: lap 0, lane start marks and the first workout phase.
+  // Gate sessions start empty; each run's start mark comes from the start gate.
+  const beginSession = useCallback((now: number) => {
+    pendingSplitsRef.current = [];
+    setLastActivity(now);
+    setLapEditLog(null);
+    archivedEditLogRef.current = null;
+    setLaps(gateRole !== 'off' ? [] : [{
+      id: crypto.randomUUID(),
+      timestamp: now,
+      duration: 0,
+      ...(activeWorkout && { set: 0 }),
+    }]);
+    setWorkoutPhase(activeWorkout ? { setIndex: 0, kind: 'work', startedAt: now } : null);
+    // Lanes share the start so their first lap is timed from the same moment
+    setLaneLaps(settings.laneMode
+      ? Object.fromEntries(settings.lanes.map(lane => [lane.id, [{ id: crypto.randomUUID(), timestamp: now, duration: 0 }]]))
+      : {});
+  }, [activeWorkout, gateRole, settings.laneMode, settings.lanes]);
 
   const toggleMonitoring = useCallback(() => {
+    // Start/Stop is a user gesture, which browsers require before audio can play
+    unlockAudio();
+    const isFileSource = frameSource.kind === 'file';
     if (isMonitoring) {
       setIsMonitoring(false);
+      // Stopping before Go abandons the start
+      setStartStage(null);
+      if (isFileSource) frameSourceControlRef.current?.video?.pause();
     } else {
-      const completedLaps = laps.filter(l => l.duration > 0).length;
-      const lapTargetReached = settings.targetLaps > 0 && completedLaps >= settings.targetLaps;
-      const timeTargetReached = settings.targetDuration > 0 && laps.length > 0 &&
-        (Date.now() - laps[0].timestamp) >= settings.targetDuration * 1000;
-      const isFinished = lapTargetReached || timeTargetReached;
+      // A session recorded without the current workout counts as finished, so the workout starts fresh
+      const isFinished = activeWorkout
+        ? workoutPhase === null || isWorkoutDone
+        : (settings.laneMode ? areLanesFinished(settings.lanes, laneLaps, settings.targetLaps) : isLapTargetReached(laps, settings.targetLaps)) ||
+          isTimeTargetReached(laps, settings.targetDuration);
 
       setIsMonitoring(true);
 
+      const isFresh = laps.length === 0 || isFinished;
+      // A fresh file session replays the clip from the start; laps are timed on its media clock
+      if (isFileSource && isFresh) frameSourceControlRef.current?.rewind();
+      else if (isFileSource) frameSourceControlRef.current?.video?.play().catch(e => console.error("Play error:", e));
+
       // If starting fresh (no laps or previous session finished), trigger the timer start immediately
-      if (laps.length === 0 || isFinished) {
-        const now = Date.now();
-        setLastActivity(now);
-        setLaps([{
-          id: crypto.randomUUID(),
-          timestamp: now,
-          duration: 0
-        }]);
+      if (isFresh) {
+        const now = frameSourceControlRef.current?.now() ?? clockNow();
+        sessionRef.current = { id: crypto.randomUUID(), name: defaultSessionName(now), athleteId: selectedAthleteId ?? undefined };
+        setOfflineGaps([]);
+        setGoAt(null);
+
+        // Gate runs are started by the start gate crossing, and replays by the clip, not by a start sequence
+        if (settings.startMode === 'readySetGo' && gateRole === 'off' && !isFileSource) {
+          // Detection runs during the sequence so early motion can be flagged; laps start at Go
+          setLaps([]);
+          setLaneLaps({});
+          setWorkoutPhase(null);
+          setLastActivity(0);
+          setFalseStart(false);
+          setStartStage('ready');
+          if (settings.startVoice) speak('Ready', settings.audio.volume);
+          else playCue('ready', 'beep', settings.audio.volume);
+        } else {
+          beginSession(now);
+        }
       }
     }
-  }, [isMonitoring, laps, settings.targetLaps, settings.targetDuration]);
+  }, [isMonitoring, laps, laneLaps, selectedAthleteId, activeWorkout, workoutPhase, isWorkoutDone, beginSession, settings.targetLaps, settings.targetDuration, settings.laneMode, settings.lanes, settings.startMode, settings.startVoice, settings.audio.volume, gateRole, frameSource]);
+
+  // Ready - Set - Go: Set after a fixed delay, Go after a random hold so the start can't be anticipated
+  useEffect(() => {
+    if (!isMonitoring || !startStage) return;
+
+    if (startStage === 'ready') {
+      const timeout = setTimeout(() => {
+        if (settings.startVoice) speak('Set', settings.audio.volume);
+        else playCue('set', 'beep', settings.audio.volume);
+        setStartStage('set');
+      }, START_STAGE_MS);
+      return () => clearTimeout(timeout);
+    }
+
+    if (startStage === 'set') {
+      const hold = START_HOLD_MIN_MS + Math.random() * (START_HOLD_MAX_MS - START_HOLD_MIN_MS);
+      const timeout = setTimeout(() => {
+        // Go is always a tone; speech synthesis starts with a device-dependent delay
+        playCue('go', 'beep', settings.audio.volume);
+        const now = clockNow();
+        beginSession(now);
+        setGoAt(now);
+        setStartStage('go');
+      }, hold);
+      return () => clearTimeout(timeout);
+    }
+
+    // Keep "Go" on screen briefly
+    const timeout = setTimeout(() => setStartStage(null), 1000);
+    return () => clearTimeout(timeout);
+  }, [isMonitoring, startStage, beginSession, settings.startVoice, settings.audio.volume]);
+
+  // Audible warning the moment a false start is detected
+  useEffect(() => {
+    if (falseStart && isStartPending) playCue('falseStart', 'beep', settings.audio.volume);
+  }, [falseStart, isStartPending, settings.audio.volume]);
 
   const handleEnterDisplay = useCallback(() => {
     setActiveTab(Tab.DISPLAY);
@@ -180,31 +709,382 @@ export default function App() {
     }
   }, []);
 
+  // Tap target, keys and clickers. The lap is dated by the input event, not by when it was
+  // handled; a replayed file is timed on its media clock like its camera crossings.
+  const handleManualLap = useCallback((eventTimeStamp: number) => {
+    if (!isMonitoring || settings.laneMode) return;
+    const control = frameSourceControlRef.current;
+    const timestamp = frameSource.kind === 'file' && control ? control.now() : performance.timeOrigin + eventTimeStamp;
+    handleMotionTriggered(timestamp, 'manual');
+  }, [isMonitoring, settings.laneMode, frameSource, handleMotionTriggered]);
+
+  // Undo goes through the lap editor's delete, so it is logged and can be restored
+  const handleUndoLap = useCallback(() => {
+    const lastLap = laps[laps.length - 1];
+    const edit = lastLap && !settings.laneMode ? deleteLap(laps, lastLap.id) : null;
+    if (edit) handleLapEdit(edit);
+  }, [laps, settings.laneMode, handleLapEdit]);
+
+  // A remote scoreboard has no session to control
+  useEffect(() => {
+    if (remoteRelay !== null) return;
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return;
+      // Dialogs own the keyboard while open; the frame viewers in History step with the arrow keys
+      if (showSettings || showLapEditor || showCalibration || showHistory || showRoster || showReplayComparison || pendingResume || pendingPreset) return;
+      const action = getShortcutAction(settings.shortcuts, e.key);
+      if (!action) return;
+      // Space and Enter would also click the focused button
+      e.preventDefault();
+
+      if (action === 'lap') handleManualLap(e.timeStamp);
+      else if (action === 'startStop') toggleMonitoring();
+      else if (action === 'reset') resetLaps();
+      else if (action === 'undoLap') handleUndoLap();
+      else if (activeTab === Tab.DISPLAY) handleExitDisplay();
+      else handleEnterDisplay();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [remoteRelay, settings.shortcuts, showSettings, showLapEditor, showCalibration, showHistory, showRoster, showReplayComparison, pendingResume, pendingPreset, activeTab, handleManualLap, toggleMonitoring, resetLaps, handleUndoLap, handleEnterDisplay, handleExitDisplay]);
+
+  const handleDiffSample = useCallback((sample: DiffSample) => {
+    calibrationSinkRef.current?.(sample);
+  }, []);
+
+  // Photo-finish frames arrive a few frames after the crossing; they are kept only if the
+  // crossing became a lap (cooldowns, rests and gate rules can drop it)
+  const lapsRef = useRef({ laps, laneLaps });
+  lapsRef.current = { laps, laneLaps };
+  const handleSnapshot = useCallback((snapshot: CapturedSnapshot) => {
+    const { laps: currentLaps, laneLaps: currentLaneLaps } = lapsRef.current;
+    const lap = [...currentLaps, ...Object.values(currentLaneLaps).flat()]
+      .find(l => l.timestamp === snapshot.triggeredAt);
+    const session = sessionRef.current;
+    if (!lap || !session) return;
+    saveLapSnapshot({ ...snapshot, lapId: lap.id, sessionId: session.id })
+      .catch((e) => console.warn('Failed to save photo-finish snapshot:', e));
+  }, []);
+
+  // Slit-scan strips arrive when monitoring stops and belong to the session that was running
+  const handleSlitScan = useCallback((scan: CapturedSlitScan) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    saveSlitScan({ ...scan, id: crypto.randomUUID(), sessionId: session.id })
+      .catch((e) => console.warn('Failed to save slit-scan strip:', e));
+  }, []);
+
+  // Calibration needs the camera view, so it always runs on the Monitor tab
+  const handleStartCalibration = useCallback(() => {
+    setShowSettings(false);
+    if (activeTab === Tab.DISPLAY) handleExitDisplay();
+    setShowCalibration(true);
+  }, [activeTab, handleExitDisplay]);
+
+  const handleApplyCalibration = useCallback((values: { sensitivity: number; cooldown: number }) => {
+    setSettings(prev => ({ ...prev, ...values }));
+    setShowCalibration(false);
+  }, []);
+
+  const handleOpenSession = useCallback((session: Session) => {
+    setShowHistory(false);
+    // Sessions recorded before newer settings existed are filled in with defaults
+    setReviewSession({ ...session, settings: { ...DEFAULT_SETTINGS, ...session.settings } });
+    handleEnterDisplay();
+  }, [handleEnterDisplay]);
+
   // Compute stats for the display
   const stats = useMemo(() => {
-    const validLaps = laps.filter(l => l.duration > 0);
-    const count = validLaps.length;
+    // A workout's phases decide when it is finished, not the lap/time targets
+    if (activeWorkout) return { ...computeLapStats(laps, 0, 0), isFinished: isWorkoutDone };
+
+    const baseStats = computeLapStats(laps, settings.targetLaps, settings.targetDuration);
+    if (!settings.laneMode) return baseStats;
+    // In lane mode `laps` is only the start mark; completion comes from the lanes
+    return {
+      ...baseStats,
+      isFinished: areLanesFinished(settings.lanes, laneLaps, settings.targetLaps) || isTimeTargetReached(laps, settings.targetDuration),
+    };
+    // isMonitoring is a dependency so time-based completion is re-evaluated on stop
+  }, [laps, laneLaps, settings.targetLaps, settings.targetDuration, settings.laneMode, settings.lanes, activeWorkout, isWorkoutDone, isMonitoring]);
+
+  const laneStats = useMemo(
+    () => (settings.laneMode ? computeLaneStats(settings.lanes, laneLaps, settings.targetLaps, settings.targetDuration) : undefined),
+    [settings.laneMode, settings.lanes, laneLaps, settings.targetLaps, settings.targetDuration]
+  );
+
+  // Lane sessions are announced by the leading lane's laps
+  const announcedLaps = useMemo(() => {
+    const leader = laneStats && getLeadingLaneId(laneStats);
+    return (leader && laneLaps[leader]) || laps;
+  }, [laneStats, laneLaps, laps]);
+
+  // Two-camera timing. The finish gate pings the start gate every CLOCK_SYNC_INTERVAL_MS;
+  // the start gate answers with its receive and send times and reports its crossings.
+  useEffect(() => {
+    if (gateRole === 'off') {
+      clockSyncRef.current = null;
+      setClockSync(null);
+      setGateLinked(false);
+      return;
+    }
+
+    let linkTimeout: number | null = null;
+    const markLinked = () => {
+      setGateLinked(true);
+      if (linkTimeout) clearTimeout(linkTimeout);
+      linkTimeout = window.setTimeout(() => setGateLinked(false), GATE_LINK_TIMEOUT_MS);
+    };
+
+    const samples: ClockSyncSample[] = [];
+    const pendingPings = new Set<string>();
+    const channel = openRemoteChannel(settings.remoteRelayUrl.trim(), (message) => {
+      const receivedAt = clockNow();
+      if (gateRole === 'start' && message.type === 'syncPing') {
+        channel.send({ type: 'syncPong', id: message.id, pingSentAt: message.sentAt, pingReceivedAt: receivedAt });
+        markLinked();
+      } else if (gateRole === 'finish' && message.type === 'syncPong' && pendingPings.delete(message.id)) {
+        samples.push(measureClockSync(message.pingSentAt, message.pingReceivedAt, message.sentAt, receivedAt));
+        if (samples.length > CLOCK_SYNC_SAMPLES) samples.shift();
+        clockSyncRef.current = getBestClockSync(samples);
+        setClockSync(clockSyncRef.current);
+        markLinked();
+      } else if (gateRole === 'finish' && message.type === 'gateStart') {
+        handleGateStartRef.current(message.at);
+      }
+    });
+    gateChannelRef.current = channel;
+
+    const pingInterval = gateRole === 'finish'
+      ? window.setInterval(() => {
+        const id = crypto.randomUUID();
+        pendingPings.add(id);
+        // Pongs that never arrive are forgotten with the oldest pings
+        if (pendingPings.size > CLOCK_SYNC_SAMPLES) pendingPings.delete(pendingPings.values().next().value!);
+        channel.send({ type: 'syncPing', id });
+      }, CLOCK_SYNC_INTERVAL_MS)
+      : null;
+
+    return () => {
+      if (pingInterval) clearInterval(pingInterval);
+      if (linkTimeout) clearTimeout(linkTimeout);
+      channel.close();
+      gateChannelRef.current = null;
+      clockSyncRef.current = null;
+      setClockSync(null);
+      setGateLinked(false);
+    };
+  }, [gateRole, settings.remoteRelayUrl]);
+
+  // Remote scoreboards: publish session events while enabled (never from a scoreboard itself)
+  const isPublishing = settings.remotePublish && remoteRelay === null;
+  const remoteSnapshot = useMemo<RemoteSnapshot>(
+    () => ({ laps, isMonitoring, targetLaps: stats.targetLaps, targetDuration: stats.targetDuration }),
+    [laps, isMonitoring, stats.targetLaps, stats.targetDuration]
+  );
+  const remoteSnapshotRef = useRef(remoteSnapshot);
+  remoteSnapshotRef.current = remoteSnapshot;
+
+  useEffect(() => {
+    if (!isPublishing) {
+      setRemoteStatus('closed');
+      return;
+    }
+    const channel = openRemoteChannel(settings.remoteRelayUrl.trim(), (message) => {
+      // Displays that join mid-session catch up from a full snapshot
+      if (message.type === 'hello') channel.send({ type: 'snapshot', snapshot: remoteSnapshotRef.current });
+    }, (status) => {
+      setRemoteStatus(status);
+      if (status === 'open') channel.send({ type: 'snapshot', snapshot: remoteSnapshotRef.current });
+    });
+    remoteChannelRef.current = channel;
+    return () => {
+      channel.close();
+      remoteChannelRef.current = null;
+    };
+  }, [isPublishing, settings.remoteRelayUrl]);
+
+  // Laps: a single appended lap goes out on its own; anything else (resume, workout sets) as a snapshot
+  const publishedLapsRef = useRef<Lap[]>([]);
+  useEffect(() => {
+    const previous = publishedLapsRef.current;
+    publishedLapsRef.current = laps;
+    const channel = remoteChannelRef.current;
+    if (!channel || previous === laps) return;
+
+    if (laps.length === 0) channel.send({ type: 'reset' });
+    else if (laps.length === previous.length + 1 && previous.every((lap, i) => lap.id === laps[i].id)) {
+      channel.send({ type: 'lap', lap: laps[laps.length - 1] });
+    } else channel.send({ type: 'snapshot', snapshot: remoteSnapshotRef.current });
+  }, [laps]);
+
+  const publishedMonitoringRef = useRef(isMonitoring);
+  useEffect(() => {
+    if (publishedMonitoringRef.current === isMonitoring) return;
+    publishedMonitoringRef.current = isMonitoring;
+    remoteChannelRef.current?.send({ type: isMonitoring ? 'start' : 'stop' });
+  }, [isMonitoring]);
+
+  useEffect(() => {
+    remoteChannelRef.current?.send({ type: 'targets', targetLaps: stats.targetLaps, targetDuration: stats.targetDuration });
+  }, [stats.targetLaps, stats.targetDuration]);
+
+  // Checkpoint the in-progress session on every lap and state change, plus a heartbeat
+  // while running so an interruption can be dated to within CHECKPOINT_HEARTBEAT_MS
+  useEffect(() => {
+    // Leave an unanswered resume offer untouched
+    if (pendingResume) return;
+
+    if (laps.length === 0 || stats.isFinished) {
+      clearCheckpoint();
+      return;
+    }
 
-    if (count === 0) return { average: 0, count: 0, last: 0, fastest: 0, slowest: 0, isFinished: false, targetLaps: settings.targetLaps, targetDuration: settings.targetDuration };
+    const { id, name, athleteId } = ensureSession(laps[0].timestamp);
+    const checkpoint = () => writeCheckpoint({
+      sessionId: id,
+      sessionName: name,
+      athleteId,
+      laps,
+      ...(lapEditLog && { lapEdits: lapEditLog }),
+      ...(settings.laneMode && { laneLaps, lanes: settings.lanes }),
+      ...(activeWorkout && workoutPhase && { workout: activeWorkout, workoutPhase }),
+      ...(goAt !== null && { start: { goAt, falseStart } }),
+      lastActivity,
+      isMonitoring,
+      targetLaps: settings.targetLaps,
+      targetDuration: settings.targetDuration,
+      offlineGaps,
+    });
+
+    checkpoint();
+    if (!isMonitoring) return;
+
+    const heartbeat = setInterval(checkpoint, CHECKPOINT_HEARTBEAT_MS);
+    window.addEventListener('pagehide', checkpoint);
+    return () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', checkpoint);
+    };
+  }, [laps, lapEditLog, laneLaps, lastActivity, isMonitoring, settings.targetLaps, settings.targetDuration, settings.laneMode, settings.lanes, activeWorkout, workoutPhase, goAt, falseStart, offlineGaps, stats.isFinished, pendingResume, ensureSession]);
 
-    const durations = validLaps.map(l => l.duration);
-    const totalTime = durations.reduce((acc, curr) => acc + curr, 0);
-    const average = totalTime / count;
-    const last = durations[durations.length - 1];
-    const fastest = Math.min(...durations);
-    const slowest = Math.max(...durations);
+  const handleResume = useCallback(() => {
+    if (!pendingResume) return;
+    const checkpoint = pendingResume;
 
-    // Check if session is finished by lap count OR duration
-    const lapTargetReached = settings.targetLaps > 0 && count >= settings.targetLaps;
-    const timeTargetReached = settings.targetDuration > 0 && laps.length > 0 &&
-      (Date.now() - laps[0].timestamp) >= settings.targetDuration * 1000;
-    const isFinished = lapTargetReached || timeTargetReached;
+    sessionRef.current = { id: checkpoint.sessionId, name: checkpoint.sessionName, athleteId: checkpoint.athleteId };
+    setSelectedAthleteId(checkpoint.athleteId ?? null);
+    setSettings(prev => ({
+      ...prev,
+      targetLaps: checkpoint.targetLaps,
+      targetDuration: checkpoint.targetDuration,
+      ...(checkpoint.lanes && { laneMode: true, lanes: checkpoint.lanes }),
+      workout: checkpoint.workout ?? null,
+    }));
+    setLaps(checkpoint.laps);
+    setLapEditLog(checkpoint.lapEdits ?? null);
+    setLaneLaps(checkpoint.laneLaps ?? {});
+    // Phases that ended while the app was closed are caught up by the workout effect
+    setWorkoutPhase(checkpoint.workoutPhase ?? null);
+    setGoAt(checkpoint.start?.goAt ?? null);
+    setFalseStart(checkpoint.start?.falseStart ?? false);
+    // Timers derive elapsed time from lastActivity, so they pick up where they were
+    setLastActivity(checkpoint.lastActivity);
+    // Detection was only offline if the session was running when it was interrupted
+    setOfflineGaps(checkpoint.isMonitoring
+      ? [...checkpoint.offlineGaps, { from: checkpoint.savedAt, to: clockNow() }]
+      : checkpoint.offlineGaps);
+    setIsMonitoring(checkpoint.isMonitoring);
+    setPendingResume(null);
+  }, [pendingResume]);
 
-    return { average, count, last, fastest, slowest, isFinished, targetLaps: settings.targetLaps, targetDuration: settings.targetDuration };
-  }, [laps, settings.targetLaps, settings.targetDuration, isMonitoring]);
+  const handleDiscardResume = useCallback(() => {
+    if (!pendingResume) return;
+    const checkpoint = pendingResume;
+
+    // A paused session was archived when it stopped; a running one still needs saving
+    if (checkpoint.isMonitoring) {
+      saveSession({
+        id: checkpoint.sessionId,
+        name: checkpoint.sessionName,
+        athleteId: checkpoint.athleteId,
+        laps: checkpoint.laps,
+        ...(checkpoint.lapEdits && { lapEdits: checkpoint.lapEdits }),
+        settings: {
+          ...settings,
+          targetLaps: checkpoint.targetLaps,
+          targetDuration: checkpoint.targetDuration,
+          ...(checkpoint.lanes && { laneMode: true, lanes: checkpoint.lanes }),
+          ...(checkpoint.workout && { workout: checkpoint.workout }),
+        },
+        startedAt: checkpoint.laps[0].timestamp,
+        endedAt: checkpoint.savedAt,
+        endReason: 'interrupted',
+        offlineGaps: checkpoint.offlineGaps,
+        ...(checkpoint.laneLaps && { laneLaps: checkpoint.laneLaps }),
+        ...(checkpoint.start && {
+          start: { ...checkpoint.start, reactionTime: getReactionTime(checkpoint.start.goAt, checkpoint.laps, checkpoint.laneLaps) },
+        }),
+      }).catch((e) => {
+        console.error("Failed to save interrupted session:", e);
+      });
+    }
+
+    clearCheckpoint();
+    setPendingResume(null);
+  }, [pendingResume, settings]);
+
+  // Archived sessions always open in the finished layout
+  const reviewStats = useMemo(() => {
+    if (!reviewSession) return null;
+    const { laps: sessionLaps, settings: sessionSettings } = reviewSession;
+    return { ...computeLapStats(sessionLaps, sessionSettings.targetLaps, sessionSettings.targetDuration), isFinished: true };
+  }, [reviewSession]);
+
+  const liveStart = useMemo<StartRecord | undefined>(
+    () => (goAt !== null
+      ? { goAt, falseStart, reactionTime: getReactionTime(goAt, laps, settings.laneMode ? laneLaps : undefined) }
+      : undefined),
+    [goAt, falseStart, laps, laneLaps, settings.laneMode]
+  );
+
+  const selectedAthlete = athletes.find(a => a.id === selectedAthleteId);
+  const athleteStats = useMemo(
+    () => (selectedAthleteId ? computeAthleteStats(athleteSessions) : undefined),
+    [selectedAthleteId, athleteSessions]
+  );
+  // The athlete is fixed once a session is under way; finishing or resetting frees the picker
+  const canChangeAthlete = !isMonitoring && (laps.length === 0 || stats.isFinished);
+
+  const reviewLaneStats = useMemo(() => {
+    if (!reviewSession?.laneLaps) return undefined;
+    const { lanes, targetLaps, targetDuration } = reviewSession.settings;
+    return computeLaneStats(lanes, reviewSession.laneLaps, targetLaps, targetDuration);
+  }, [reviewSession]);
 
   const isDisplayMode = activeTab === Tab.DISPLAY;
 
+  // A remote scoreboard mirrors another device; it has no camera and no session of its own
+  if (remoteRelay !== null) {
+    return (
+      <div className="h-screen w-screen bg-slate-950 text-slate-100 overflow-hidden font-sans relative">
+        <RemoteDisplay
+          relayUrl={remoteRelay}
+          settings={settings}
+          setSettings={setSettings}
+          onExit={() => { window.location.hash = '#monitor'; }}
+          onOpenSettings={() => setShowSettings(true)}
+        />
+        <ConfigTab
+          settings={settings}
+          setSettings={setSettings}
+          isOpen={showSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="h-screen w-screen flex flex-col bg-slate-950 text-slate-100 overflow-hidden font-sans selection:bg-cyan-500/30">
 
@@ -215,6 +1095,22 @@ export default function App() {
             <h1 className="font-bold tracking-wide text-lg bg-gradient-to-r from-white to-blue-400 bg-clip-text text-transparent">LapTracker</h1>
           </div>
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowHistory(true)}
+              className="p-2.5 text-slate-400 hover:bg-slate-800 hover:text-cyan-400 rounded-full transition-all border border-transparent hover:border-slate-700"
+              title="Session History"
+            >
+              <History size={18} />
+            </button>
+            {laps.length > 0 && !settings.laneMode && (
+              <button
+                onClick={() => setShowLapEditor(true)}
+                className="p-2.5 text-slate-400 hover:bg-slate-800 hover:text-cyan-400 rounded-full transition-all border border-transparent hover:border-slate-700"
+                title="Edit Laps"
+              >
+                <Pencil size={18} />
+              </button>
+            )}
             {laps.length > 0 && (
               <button
                 onClick={resetLaps}
@@ -256,12 +1152,34 @@ export default function App() {
 
       <main className="flex-1 relative overflow-hidden flex flex-col bg-slate-950">
 
+        {startStage && <StartSequenceOverlay stage={startStage} falseStart={falseStart} />}
+
+        <AudioFeedback
+          audio={settings.audio}
+          laps={announcedLaps}
+          isMonitoring={isMonitoring}
+          isFinished={stats.isFinished}
+          targetDuration={activeWorkout ? 0 : settings.targetDuration}
+        />
+
         <div className={`absolute inset-0 z-0 ${activeTab === Tab.CONFIG ? 'visible' : 'invisible pointer-events-none opacity-0'}`}>
           <MotionEngine
             settings={settings}
             onMotionTriggered={handleMotionTriggered}
+            onCheckpointTriggered={handleCheckpointTriggered}
+            onLaneTriggered={handleLaneTriggered}
             isMonitoring={isMonitoring}
             lastActivityTimestamp={lastActivity}
+            isCalibrating={showCalibration}
+            onDiffSample={handleDiffSample}
+            onSnapshot={handleSnapshot}
+            onSlitScan={handleSlitScan}
+            source={frameSource}
+            controlRef={frameSourceControlRef}
+            onSourceEnded={handleSourceEnded}
+            camera={camera}
+            onCameraReady={handleCameraReady}
+            onCameraFailed={refreshCameraDevices}
           />
 
           {/* Tied to Dev Mode now */}
@@ -270,11 +1188,24 @@ export default function App() {
               isMonitoring={isMonitoring}
               lastActivity={lastActivity}
               hasLaps={laps.length > 0}
+              offlineGaps={offlineGaps}
             />
           )}
 
           {/* Controls Layer */}
           <div className="absolute inset-0 z-10 pointer-events-none">
+            {/* Frame Source - Top Left */}
+            {!showCalibration && (
+              <div className="absolute top-3 left-3 pointer-events-auto">
+                <SourcePicker
+                  source={frameSource}
+                  onChange={handleSourceChange}
+                  controlRef={frameSourceControlRef}
+                  disabled={isMonitoring}
+                />
+              </div>
+            )}
+
             {/* Settings Button - Top Right */}
             <div className="absolute top-3 right-3 pointer-events-auto">
               <button
@@ -286,36 +1217,113 @@ export default function App() {
               </button>
             </div>
 
-            {/* Start/Stop Button - Bottom, integrated with nav */}
-            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 pointer-events-auto">
-              <button
-                onClick={toggleMonitoring}
-                className={`flex items-center gap-2.5 px-6 py-3 rounded-full font-semibold uppercase tracking-wide text-sm shadow-2xl transition-all duration-300 transform active:scale-95 ${isMonitoring
-                  ? 'bg-rose-500 text-white shadow-rose-500/30 hover:bg-rose-400'
-                  : 'bg-cyan-500 text-white shadow-cyan-500/30 hover:bg-cyan-400'
-                  }`}
-              >
-                {isMonitoring ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-0.5" />}
-                <span>{isMonitoring ? 'Stop' : 'Start'}</span>
-              </button>
-            </div>
+            {/* Replay Controls - above the Athlete Picker */}
+            {frameSource.kind === 'file' && !showCalibration && (
+              <div className="absolute bottom-32 left-3 right-3 max-w-lg mx-auto pointer-events-auto">
+                <ReplayControls
+                  controlRef={frameSourceControlRef}
+                  file={frameSource.file}
+                  recorded={!!frameSource.recorded}
+                  runCount={replayRuns.length}
+                  onCompare={() => setShowReplayComparison(true)}
+                />
+              </div>
+            )}
+
+            {/* Manual Lap - Right Edge */}
+            {settings.tapTarget && isMonitoring && !settings.laneMode && !showCalibration && (
+              <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-auto">
+                <button
+                  onPointerDown={(e) => handleManualLap(e.timeStamp)}
+                  className="w-32 h-32 flex flex-col items-center justify-center gap-1 rounded-full bg-amber-500/80 text-white font-bold uppercase tracking-wider text-sm shadow-2xl shadow-amber-500/30 backdrop-blur-sm border-2 border-amber-300/50 transition-transform active:scale-90 touch-none select-none"
+                  title="Record a Lap"
+                >
+                  <Hand size={28} />
+                  Lap
+                </button>
+              </div>
+            )}
+
+            {/* Athlete Picker - above the Start button */}
+            {!showCalibration && !settings.laneMode && (
+              <div className="absolute bottom-20 left-1/2 -translate-x-1/2 pointer-events-auto">
+                <AthletePicker
+                  athletes={athletes}
+                  selectedId={selectedAthleteId}
+                  onSelect={setSelectedAthleteId}
+                  onManage={() => setShowRoster(true)}
+                  disabled={!canChangeAthlete}
+                />
+              </div>
+            )}
+
+            {/* Start/Stop Button - Bottom, integrated with nav (hidden while calibrating) */}
+            {!showCalibration && (
+              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 pointer-events-auto">
+                <button
+                  onClick={toggleMonitoring}
+                  className={`flex items-center gap-2.5 px-6 py-3 rounded-full font-semibold uppercase tracking-wide text-sm shadow-2xl transition-all duration-300 transform active:scale-95 ${isMonitoring
+                    ? 'bg-rose-500 text-white shadow-rose-500/30 hover:bg-rose-400'
+                    : 'bg-cyan-500 text-white shadow-cyan-500/30 hover:bg-cyan-400'
+                    }`}
+                >
+                  {isMonitoring ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-0.5" />}
+                  <span>{isMonitoring ? 'Stop' : 'Start'}</span>
+                </button>
+              </div>
+            )}
+
+            {showCalibration && (
+              <CalibrationWizard
+                settings={settings}
+                sampleSinkRef={calibrationSinkRef}
+                onApply={handleApplyCalibration}
+                onClose={() => setShowCalibration(false)}
+              />
+            )}
           </div>
         </div>
 
         {activeTab === Tab.DISPLAY && (
           <div className="absolute inset-0 z-20 bg-slate-950">
-            <DisplayTab
-              stats={stats}
-              laps={laps}
-              isMonitoring={isMonitoring}
-              toggleMonitoring={toggleMonitoring}
-              onExit={handleExitDisplay}
-              onReset={resetLaps}
-              lastActivity={lastActivity}
-              settings={settings}
-              setSettings={setSettings}
-              onOpenSettings={() => setShowSettings(true)}
-            />
+            {reviewSession && reviewStats ? (
+              <DisplayTab
+                stats={reviewStats}
+                laps={reviewSession.laps}
+                isMonitoring={false}
+                toggleMonitoring={toggleMonitoring}
+                onExit={handleExitDisplay}
+                onReset={resetLaps}
+                lastActivity={0}
+                settings={reviewSession.settings}
+                setSettings={setSettings}
+                onOpenSettings={() => setShowSettings(true)}
+                offlineGaps={reviewSession.offlineGaps}
+                laneStats={reviewLaneStats}
+                athlete={athletes.find(a => a.id === reviewSession.athleteId)}
+                start={reviewSession.start}
+                reviewTitle={reviewSession.name}
+              />
+            ) : (
+              <DisplayTab
+                stats={stats}
+                laps={laps}
+                isMonitoring={isMonitoring}
+                toggleMonitoring={toggleMonitoring}
+                onExit={handleExitDisplay}
+                onReset={resetLaps}
+                lastActivity={lastActivity}
+                settings={settings}
+                setSettings={setSettings}
+                onOpenSettings={() => setShowSettings(true)}
+                offlineGaps={offlineGaps}
+                laneStats={laneStats}
+                athlete={selectedAthlete}
+                athleteStats={athleteStats}
+                workoutPhase={activeWorkout ? workoutPhase : null}
+                start={liveStart}
+              />
+            )}
           </div>
         )}
 
@@ -325,7 +1333,66 @@ export default function App() {
           setSettings={setSettings}
           isOpen={showSettings}
           onClose={() => setShowSettings(false)}
+          onCalibrate={isMonitoring ? undefined : handleStartCalibration}
+          remoteStatus={remoteStatus}
+          gateLink={{ linked: gateLinked, sync: clockSync }}
+          camera={frameSource.kind === 'camera'
+            ? { settings: camera, status: cameraStatus, devices: cameraDevices, onChange: handleCameraChange }
+            : undefined}
+          presets={{ list: presets, onSave: handleSavePreset, onApply: handleApplyPreset, onDelete: handleDeletePreset, onImport: handleImportPreset }}
+        />
+
+        <HistoryTab
+          isOpen={showHistory}
+          onClose={() => setShowHistory(false)}
+          onOpenSession={handleOpenSession}
+          currentSession={showHistory && laps.length > 0 ? buildSession(laps, previewSessionIdentity(laps[0].timestamp)) : null}
+          athletes={athletes}
         />
+
+        <AthleteRoster
+          isOpen={showRoster}
+          onClose={() => setShowRoster(false)}
+          athletes={athletes}
+          onChanged={refreshAthletes}
+        />
+
+        {showLapEditor && (
+          <LapEditor
+            laps={laps}
+            editLog={lapEditLog}
+            onEdit={handleLapEdit}
+            onRestore={handleRestoreLaps}
+            onClose={() => setShowLapEditor(false)}
+          />
+        )}
+
+        {showReplayComparison && (
+          <ReplayComparison
+            runs={replayRuns}
+            onClear={() => setReplayRuns([])}
+            onClose={() => setShowReplayComparison(false)}
+          />
+        )}
+
+        {pendingPreset && !pendingResume && (
+          <PresetImportPrompt
+            preset={pendingPreset}
+            onImport={() => {
+              handleImportPreset(pendingPreset);
+              setPendingPreset(null);
+            }}
+            onDismiss={() => setPendingPreset(null)}
+          />
+        )}
+
+        {pendingResume && (
+          <ResumePrompt
+            checkpoint={pendingResume}
+            onResume={handleResume}
+            onDiscard={handleDiscardResume}
+          />
+        )}
       </main>
 
 
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Athlete } from '../types';
+import { ChevronDown, UserRound, Users } from 'lucide-react';
+
+interface AthletePickerProps {
+  athletes: Athlete[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onManage: () => void;
+  disabled: boolean; // A session in progress keeps the athlete it started with
+}
+
+export default function AthletePicker({ athletes, selectedId, onSelect, onManage, disabled }: AthletePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const selected = athletes.find(a => a.id === selectedId);
+
+  const choose = (id: string | null) => {
+    onSelect(id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        className="flex items-center gap-2 px-4 py-2 bg-black/60 text-slate-300 hover:text-cyan-400 backdrop-blur-sm rounded-full border border-slate-700/50 hover:border-cyan-500/30 transition-all text-xs font-semibold uppercase tracking-wide disabled:opacity-60 disabled:pointer-events-none"
+        title={disabled ? 'Finish or reset the session to change athlete' : 'Choose Athlete'}
+      >
+        {selected
+          ? <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: selected.color }} />
+          : <UserRound size={14} />}
+        <span className="max-w-[10rem] truncate">{selected?.name ?? 'No athlete'}</span>
+        <ChevronDown size={14} className={`transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-56 bg-slate-900/95 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden animate-in fade-in duration-150">
+          <div className="max-h-60 overflow-y-auto no-scrollbar py-1">
+            <button
+              onClick={() => choose(null)}
+              className={`w-full flex items-center gap-2 px-4 py-2 text-left text-xs font-mono hover:bg-slate-800 transition-colors ${selectedId === null ? 'text-cyan-400' : 'text-slate-400'}`}
+            >
+              <UserRound size={12} /> No athlete
+            </button>
+            {athletes.map((athlete) => (
+              <button
+                key={athlete.id}
+                onClick={() => choose(athlete.id)}
+                className={`w-full flex items-center gap-2 px-4 py-2 text-left text-xs font-mono hover:bg-slate-800 transition-colors ${athlete.id === selectedId ? 'text-cyan-400' : 'text-slate-300'}`}
+              >
+                <span className="w-2.5 h-2.5 rounded-full flex-none" style={{ backgroundColor: athlete.color }} />
+                <span className="truncate">{athlete.name}</span>
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => { setIsOpen(false); onManage(); }}
+            className="w-full flex items-center gap-2 px-4 py-2.5 border-t border-slate-800 text-xs font-mono font-bold uppercase tracking-wide text-slate-400 hover:text-cyan-400 hover:bg-slate-800 transition-colors"
+          >
+            <Users size={12} /> Manage Roster
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Athlete } from '../types';
+import { ATHLETE_COLORS } from '../constants';
+import { saveAthlete, deleteAthlete } from '../services/athleteStore';
+import { Users, X, Plus, Pencil, Trash2, Check } from 'lucide-react';
+
+interface AthleteRosterProps {
+  isOpen: boolean;
+  onClose: () => void;
+  athletes: Athlete[];
+  onChanged: () => void; // Reload the roster after an edit
+}
+
+interface Draft {
+  id: string | null; // null while adding a new athlete
+  name: string;
+  color: string;
+  notes: string;
+}
+
+const emptyDraft = (index: number): Draft => ({
+  id: null,
+  name: '',
+  color: ATHLETE_COLORS[index % ATHLETE_COLORS.length],
+  notes: '',
+});
+
+export default function AthleteRoster({ isOpen, onClose, athletes, onChanged }: AthleteRosterProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  if (!isOpen) return null;
+
+  const startEdit = (athlete: Athlete) => {
+    setDraft({ id: athlete.id, name: athlete.name, color: athlete.color, notes: athlete.notes ?? '' });
+  };
+
+  const commitDraft = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) return;
+
+    const existing = athletes.find(a => a.id === draft.id);
+    try {
+      await saveAthlete({
+        id: draft.id ?? crypto.randomUUID(),
+        name,
+        color: draft.color,
+        notes: draft.notes.trim() || undefined,
+        createdAt: existing?.createdAt ?? Date.now(),
+      });
+      setDraft(null);
+      onChanged();
+    } catch (e) {
+      console.error('Failed to save athlete:', e);
+    }
+  };
+
+  const handleDelete = async (athlete: Athlete) => {
+    if (!window.confirm(`Remove ${athlete.name} from the roster? Their sessions stay in History.`)) return;
+    try {
+      await deleteAthlete(athlete.id);
+      onChanged();
+    } catch (e) {
+      console.error('Failed to delete athlete:', e);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 animate-in fade-in duration-200">
+      <div className="bg-slate-900/95 border border-slate-700 shadow-2xl rounded-3xl w-full max-w-sm overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800 bg-slate-900/50">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Users size={20} className="drop-shadow-[0_0_8px_rgba(34,211,238,0.5)]" />
+            <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200">Athletes</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto no-scrollbar">
+          {athletes.length === 0 && !draft && (
+            <p className="text-xs font-mono text-slate-500 text-center py-6">No athletes yet.</p>
+          )}
+
+          {athletes.map((athlete) => (
+            draft?.id === athlete.id ? null : (
+              <div key={athlete.id} className="flex items-center gap-3 bg-slate-800/50 border border-slate-700/50 rounded-2xl px-4 py-3">
+                <span className="w-3 h-3 rounded-full flex-none" style={{ backgroundColor: athlete.color }} />
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-semibold text-slate-100 truncate">{athlete.name}</div>
+                  {athlete.notes && <div className="text-[10px] font-mono text-slate-500 truncate">{athlete.notes}</div>}
+                </div>
+                <button
+                  onClick={() => startEdit(athlete)}
+                  className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 rounded-lg transition-colors"
+                  title="Edit Athlete"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button
+                  onClick={() => handleDelete(athlete)}
+                  className="p-2 text-slate-400 hover:text-rose-400 hover:bg-rose-950/30 rounded-lg transition-colors"
+                  title="Remove Athlete"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            )
+          ))}
+
+          {draft ? (
+            <div className="bg-cyan-950/20 border border-cyan-500/20 rounded-2xl p-4 space-y-3">
+              <input
+                autoFocus
+                value={draft.name}
+                placeholder="Name"
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitDraft();
+                  if (e.key === 'Escape') setDraft(null);
+                }}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-100 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50"
+              />
+              <div className="flex items-center justify-between">
+                {ATHLETE_COLORS.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => setDraft({ ...draft, color })}
+                    className={`w-6 h-6 rounded-full transition-transform active:scale-90 ${draft.color === color ? 'ring-2 ring-offset-2 ring-offset-slate-900 ring-white' : ''}`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+              <textarea
+                value={draft.notes}
+                placeholder="Notes (optional)"
+                rows={2}
+                onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-slate-300 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500 resize-none"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 text-slate-400 font-bold rounded-lg transition-colors uppercase tracking-wider text-xs border border-slate-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={commitDraft}
+                  disabled={!draft.name.trim()}
+                  className="flex-1 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-800 disabled:text-slate-500 text-white font-bold rounded-lg transition-colors flex items-center justify-center gap-1.5 uppercase tracking-wider text-xs"
+                >
+                  <Check size={14} /> Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setDraft(emptyDraft(athletes.length))}
+              className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 hover:border-cyan-500/30 rounded-lg transition-all active:scale-95"
+            >
+              <Plus size={14} />
+              <span className="text-xs font-mono font-medium uppercase tracking-wide">Add Athlete</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
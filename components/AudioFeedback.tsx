@@ -0,0 +1,69 @@
+import { useEffect, useRef } from 'react';
+import { AudioSettings, Lap } from '../types';
+import { COUNTDOWN_BEEP_SECONDS } from '../constants';
+import { getCompletedLaps } from '../utils/lapStats';
+import { clockNow } from '../utils/frameTiming';
+import { playCue, speak, getPaceTenths, formatLapAnnouncement } from '../services/audioFeedback';
+
+interface AudioFeedbackProps {
+  audio: AudioSettings;
+  laps: Lap[];
+  isMonitoring: boolean;
+  isFinished: boolean;
+  targetDuration: number; // Seconds; 0 disables the countdown
+}
+
+// Renders nothing; turns lap and session events into tones and announcements
+export default function AudioFeedback({ audio, laps, isMonitoring, isFinished, targetDuration }: AudioFeedbackProps) {
+  const lastLap = laps[laps.length - 1];
+  // Seeded with the current lap so a resumed session doesn't announce its last lap again
+  const announcedLapIdRef = useRef(lastLap?.id);
+  const sessionStart = laps[0]?.timestamp;
+  const wasFinishedRef = useRef(isFinished);
+
+  // Lap tone and announcement, compared against the average of the laps before it
+  useEffect(() => {
+    if (!lastLap || lastLap.id === announcedLapIdRef.current) return;
+    announcedLapIdRef.current = lastLap.id;
+    if (lastLap.duration <= 0) return;
+
+    const previous = getCompletedLaps(laps.slice(0, -1));
+    const average = previous.length > 0 ? previous.reduce((acc, l) => acc + l.duration, 0) / previous.length : 0;
+    const tenths = getPaceTenths(lastLap.duration, average);
+
+    if (audio.lapTone) {
+      const cue = audio.paceTones && tenths !== 0 ? (tenths < 0 ? 'faster' : 'slower') : 'lap';
+      playCue(cue, audio.toneStyle, audio.volume);
+    }
+    if (audio.speakLaps) {
+      speak(formatLapAnnouncement(previous.length + 1, lastLap.duration, average), audio.volume);
+    }
+  }, [lastLap, laps, audio]);
+
+  // Countdown beeps for the last seconds of the target duration
+  useEffect(() => {
+    if (!audio.countdownBeeps || !isMonitoring || isFinished || targetDuration === 0 || sessionStart === undefined) return;
+
+    const endsAt = sessionStart + targetDuration * 1000;
+    let lastBeep = Infinity;
+
+    const interval = setInterval(() => {
+      const remaining = Math.ceil((endsAt - clockNow()) / 1000);
+      if (remaining < 1 || remaining > COUNTDOWN_BEEP_SECONDS || remaining >= lastBeep) return;
+      lastBeep = remaining;
+      playCue(remaining === 1 ? 'countdownFinal' : 'countdown', audio.toneStyle, audio.volume);
+    }, 50);
+
+    return () => clearInterval(interval);
+  }, [audio, isMonitoring, isFinished, targetDuration, sessionStart]);
+
+  // Fanfare when the session reaches its target
+  useEffect(() => {
+    if (isFinished && !wasFinishedRef.current && audio.finishFanfare && laps.length > 0) {
+      playCue('finish', audio.toneStyle, audio.volume);
+    }
+    wasFinishedRef.current = isFinished;
+  }, [isFinished, audio, laps.length]);
+
+  return null;
+}
@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, ReferenceLine } from 'recharts';
+import { AppSettings } from '../types';
+import {
+  DiffSample, analyzeNoise, detectPasses, suggestSettings, buildHistogram, sensitivityToThreshold,
+} from '../utils/calibration';
+import { Gauge, X, Check, Footprints } from 'lucide-react';
+
+interface CalibrationWizardProps {
+  settings: AppSettings;
+  // MotionEngine's diff samples are forwarded here while the wizard is recording
+  sampleSinkRef: React.MutableRefObject<((sample: DiffSample) => void) | null>;
+  onApply: (values: { sensitivity: number; cooldown: number }) => void;
+  onClose: () => void;
+}
+
+type Step = 'noiseIntro' | 'noise' | 'passesIntro' | 'passes' | 'results';
+
+const NOISE_DURATION_MS = 4000;
+const TARGET_PASSES = 3;
+
+export default function CalibrationWizard({ settings, sampleSinkRef, onApply, onClose }: CalibrationWizardProps) {
+  const [step, setStep] = useState<Step>('noiseIntro');
+  const [progress, setProgress] = useState(0);
+  const [passCount, setPassCount] = useState(0);
+  const [sensitivity, setSensitivity] = useState(settings.sensitivity);
+  const [cooldown, setCooldown] = useState(settings.cooldown);
+
+  const noiseSamplesRef = useRef<DiffSample[]>([]);
+  const passSamplesRef = useRef<DiffSample[]>([]);
+
+  // Stop receiving samples when the wizard goes away
+  useEffect(() => () => { sampleSinkRef.current = null; }, [sampleSinkRef]);
+
+  // Step 1: record the empty zone for a fixed time
+  useEffect(() => {
+    if (step !== 'noise') return;
+
+    noiseSamplesRef.current = [];
+    sampleSinkRef.current = (sample) => noiseSamplesRef.current.push(sample);
+    const startedAt = Date.now();
+
+    const interval = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setProgress(Math.min(1, elapsed / NOISE_DURATION_MS));
+      if (elapsed >= NOISE_DURATION_MS) {
+        sampleSinkRef.current = null;
+        setStep('passesIntro');
+      }
+    }, 100);
+
+    return () => clearInterval(interval);
+  }, [step, sampleSinkRef]);
+
+  // Step 2: record until the user has made enough passes and taps Done
+  useEffect(() => {
+    if (step !== 'passes') return;
+
+    passSamplesRef.current = [];
+    setPassCount(0);
+    sampleSinkRef.current = (sample) => passSamplesRef.current.push(sample);
+    const noise = analyzeNoise(noiseSamplesRef.current);
+
+    const interval = setInterval(() => {
+      setPassCount(detectPasses(passSamplesRef.current, noise).length);
+    }, 250);
+
+    return () => {
+      clearInterval(interval);
+      sampleSinkRef.current = null;
+    };
+  }, [step, sampleSinkRef]);
+
+  const analysis = useMemo(() => {
+    if (step !== 'results') return null;
+    const noise = analyzeNoise(noiseSamplesRef.current);
+    const passes = detectPasses(passSamplesRef.current, noise);
+    return {
+      noise,
+      passes,
+      suggestion: suggestSettings(noise, passes),
+      histogram: buildHistogram(noiseSamplesRef.current, passes),
+    };
+  }, [step]);
+
+  // Start the tweakable values from the suggestion
+  useEffect(() => {
+    if (!analysis) return;
+    setSensitivity(analysis.suggestion.sensitivity);
+    setCooldown(analysis.suggestion.cooldown);
+  }, [analysis]);
+
+  const primaryButton = 'w-full py-3 bg-cyan-600 hover:bg-cyan-500 active:bg-cyan-700 disabled:bg-slate-800 disabled:text-slate-500 text-white font-bold rounded-xl transition-colors flex items-center justify-center gap-2 uppercase tracking-wider text-sm shadow-lg shadow-cyan-900/20';
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 z-30 p-4 pointer-events-auto animate-in fade-in duration-200">
+      <div className="bg-slate-900/95 border border-slate-700 shadow-2xl rounded-3xl w-full max-w-md mx-auto overflow-hidden flex flex-col max-h-[70vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800 bg-slate-900/50">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Gauge size={20} className="drop-shadow-[0_0_8px_rgba(34,211,238,0.5)]" />
+            <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200">Calibrate Sensitivity</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto no-scrollbar">
+          {step === 'noiseIntro' && (
+            <>
+              <p className="text-xs font-mono text-slate-400 leading-relaxed">
+                Step 1 of 2: keep the detection zone empty. The camera will record {NOISE_DURATION_MS / 1000} seconds of background to measure the noise floor.
+              </p>
+              <button onClick={() => setStep('noise')} className={primaryButton}>Record Empty Zone</button>
+            </>
+          )}
+
+          {step === 'noise' && (
+            <div className="space-y-3">
+              <p className="text-xs font-mono text-slate-400">Recording noise floor… keep the zone clear.</p>
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-cyan-500 transition-all duration-100" style={{ width: `${progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+
+          {step === 'passesIntro' && (
+            <>
+              <p className="text-xs font-mono text-slate-400 leading-relaxed">
+                Step 2 of 2: walk or run through the zone {TARGET_PASSES} times at your normal pace, then tap Done.
+              </p>
+              <button onClick={() => setStep('passes')} className={primaryButton}>Start Recording Passes</button>
+            </>
+          )}
+
+          {step === 'passes' && (
+            <>
+              <div className="flex items-center justify-center gap-3 py-2">
+                <Footprints size={22} className="text-amber-400" />
+                <span className="font-mono text-3xl font-bold tabular-nums text-white">{passCount}</span>
+                <span className="text-xs font-mono text-slate-500 uppercase tracking-widest">/ {TARGET_PASSES} passes</span>
+              </div>
+              <button onClick={() => setStep('results')} disabled={passCount === 0} className={primaryButton}>
+                <Check size={18} /> Done
+              </button>
+            </>
+          )}
+
+          {step === 'results' && analysis && (
+            <>
+              {!analysis.suggestion.separable && (
+                <p className="text-[11px] font-mono text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2">
+                  The weakest pass was not clearly above the background noise. Try a larger zone or better lighting, or accept a higher false-trigger risk.
+                </p>
+              )}
+
+              <div className="h-36 -mx-2">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={analysis.histogram} barGap={0} barCategoryGap={1}>
+                    <XAxis dataKey="score" tick={{ fontSize: 9, fill: '#64748b' }} stroke="#334155" />
+                    <YAxis yAxisId="noise" hide />
+                    <YAxis yAxisId="passes" orientation="right" hide allowDecimals={false} />
+                    <Bar yAxisId="noise" dataKey="noise" fill="#64748b" isAnimationActive={false} />
+                    <Bar yAxisId="passes" dataKey="passes" fill="#f59e0b" isAnimationActive={false} />
+                    <ReferenceLine
+                      yAxisId="noise"
+                      x={analysis.histogram.reduce((bin, b) => (b.score <= sensitivityToThreshold(sensitivity) ? b.score : bin), 0)}
+                      stroke="#22d3ee"
+                      strokeDasharray="4 4"
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex justify-between text-[10px] font-mono text-slate-500">
+                <span><span className="text-slate-400">■</span> Noise {analysis.noise.mean.toFixed(1)} ± {analysis.noise.spread.toFixed(1)} (p99 {analysis.noise.ceiling.toFixed(1)})</span>
+                <span><span className="text-amber-400">■</span> {analysis.passes.length} pass peaks</span>
+              </div>
+
+              <div className="space-y-2.5">
+                <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                  <span>Motion Sensitivity</span>
+                  <span className="text-cyan-400/80">
+                    {sensitivity}% <span className="text-slate-500">(threshold {sensitivityToThreshold(sensitivity)})</span>
+                  </span>
+                </div>
+                <input
+                  type="range" min="1" max="100" step="1" value={sensitivity}
+                  onChange={(e) => setSensitivity(parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                />
+              </div>
+              <div className="space-y-2.5">
+                <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                  <span>Trigger Cooldown</span>
+                  <span className="text-cyan-400/80">{cooldown}ms</span>
+                </div>
+                <input
+                  type="range" min="100" max="5000" step="100" value={cooldown}
+                  onChange={(e) => setCooldown(parseInt(e.target.value))}
+                  className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                />
+              </div>
+
+              {settings.detectionModel === 'background' && (
+                <p className="text-[10px] font-mono text-slate-500">
+                  Sensitivity applies to the Frame Diff model; the Adaptive Background model uses its z-score threshold.
+                </p>
+              )}
+
+              <button onClick={() => onApply({ sensitivity, cooldown })} className={primaryButton}>
+                <Check size={18} /> Save
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,28 +1,268 @@
-import React, { useState } from 'react';
-import { AppSettings } from '../types';
-import { Sliders, Monitor, BoxSelect, Target, X, Check, Code, ChevronDown, Minus, Plus, RotateCcw } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { AppSettings, AudioSettings, TriggerSettings, ShortcutAction, SettingsPreset, DetectionZone, CrossingDirection, IntervalWorkout, ToneStyle, GateRole, ClockSyncSample, CameraSettings, CameraStatus } from '../types';
+import { MAX_CHECKPOINTS, MAX_LANES, DEFAULT_WORKOUT, CAMERA_RESOLUTIONS, CAMERA_FRAME_RATES } from '../constants';
+import { describeWorkout } from '../utils/workout';
+import { formatKey, normalizeKey } from '../utils/shortcuts';
+import { DETECTORS, DETECTOR_KINDS } from '../detectors';
+import { playCue, speak, formatLapAnnouncement } from '../services/audioFeedback';
+import { RemoteStatus } from '../services/remoteLink';
+import { matchesPreset } from '../services/settingsStore';
+import { SharedPreset, decodePreset, encodePreset, getPresetLink } from '../services/presetLink';
+import { getSyncUncertainty, formatUncertainty } from '../utils/clockSync';
+import { Sliders, Monitor, BoxSelect, Target, X, Check, Code, ChevronDown, Minus, Plus, RotateCcw, Flag, Trash2, Gauge, ArrowRight, ArrowLeft, ArrowDown, ArrowUp, Move, Users, Repeat, Volume2, Radio, Video, Keyboard, Bookmark, Share2, Copy, Download } from 'lucide-react';
+
+const CROSSING_DIRECTIONS: { value: CrossingDirection; label: string; icon: React.ElementType }[] = [
+  { value: 'any', label: 'Any', icon: Move },
+  { value: 'leftToRight', label: 'L→R', icon: ArrowRight },
+  { value: 'rightToLeft', label: 'R→L', icon: ArrowLeft },
+  { value: 'topToBottom', label: 'Down', icon: ArrowDown },
+  { value: 'bottomToTop', label: 'Up', icon: ArrowUp },
+];
+
+const WorkoutStepper = ({ label, value, min, max, step = 1, unit, onChange }: {
+  label: string; value: number; min: number; max: number; step?: number; unit?: string; onChange: (value: number) => void;
+}) => (
+  <div className="flex items-center justify-between gap-4">
+    <label className="text-xs font-mono text-slate-400 whitespace-nowrap">{label}</label>
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => onChange(Math.max(min, value - step))}
+        className="p-1.5 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95"
+        title="Decrease"
+      >
+        <Minus size={14} />
+      </button>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, Math.min(max, parseInt(e.target.value) || 0)))}
+        className="w-16 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-center text-cyan-400 font-mono text-sm focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50 transition-all shadow-sm"
+      />
+      <button
+        onClick={() => onChange(Math.min(max, value + step))}
+        className="p-1.5 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95"
+        title="Increase"
+      >
+        <Plus size={14} />
+      </button>
+      {unit && <span className="text-[10px] font-mono text-slate-500 w-3">{unit}</span>}
+    </div>
+  </div>
+);
+
+const AUDIO_TOGGLES: { key: keyof AudioSettings; label: string }[] = [
+  { key: 'lapTone', label: 'Tone on Each Lap' },
+  { key: 'paceTones', label: 'Faster / Slower Tones' },
+  { key: 'speakLaps', label: 'Speak Lap Times' },
+  { key: 'countdownBeeps', label: 'Countdown Beeps' },
+  { key: 'finishFanfare', label: 'Finish Fanfare' },
+];
+
+const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'lap', label: 'Record Lap' },
+  { action: 'startStop', label: 'Start / Stop' },
+  { action: 'reset', label: 'Reset' },
+  { action: 'undoLap', label: 'Undo Last Lap' },
+  { action: 'displayMode', label: 'Display Mode' },
+];
+
+const TONE_STYLES: ToneStyle[] = ['beep', 'chirp', 'click'];
+
+const GATE_ROLES: { value: GateRole; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'start', label: 'Start' },
+  { value: 'finish', label: 'Finish' },
+];
 
 interface ConfigTabProps {
   settings: AppSettings;
   setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
   isOpen: boolean;
   onClose: () => void;
+  onCalibrate?: () => void; // Unset while monitoring; calibration needs the detector idle
+  remoteStatus?: RemoteStatus; // Link state while publishing to remote displays
+  gateLink?: { linked: boolean; sync: ClockSyncSample | null }; // Two-camera timing state
+  camera?: { // Unset while a video file is the source
+    settings: CameraSettings;
+    status: CameraStatus | null; // The camera as opened; null until it is
+    devices: MediaDeviceInfo[];
+    onChange: (camera: CameraSettings) => void;
+  };
+  presets?: {
+    list: SettingsPreset[];
+    onSave: (name: string) => void; // Current settings under this name
+    onApply: (id: string) => void;
+    onDelete: (id: string) => void;
+    onImport: (preset: SharedPreset) => void;
+  };
 }
 
-export default function ConfigTab({ settings, setSettings, isOpen, onClose }: ConfigTabProps) {
+export default function ConfigTab({ settings, setSettings, isOpen, onClose, onCalibrate, remoteStatus, gateLink, camera, presets }: ConfigTabProps) {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
+    presets: false,
     zoneGeometry: false,
+    lanes: false,
     sensitivity: false,
+    advanced: false,
     sessionTargets: false,
+    workout: false,
+    audio: false,
+    manual: false,
+    camera: false,
+    remote: false,
     displayOptions: false,
   });
 
+  const [presetName, setPresetName] = useState('');
+  // Preset whose share link is shown
+  const [sharingId, setSharingId] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importFailed, setImportFailed] = useState(false);
+
+  // Action waiting for the next key press to be added to its shortcuts
+  const [recordingAction, setRecordingAction] = useState<ShortcutAction | null>(null);
+
+  // Captured ahead of the app's own shortcut handling; Escape cancels
+  useEffect(() => {
+    if (!recordingAction) return;
+    const handleKey = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setRecordingAction(null);
+      if (e.key === 'Escape') return;
+      const key = normalizeKey(e.key);
+      // A key does one thing: it moves from any other action
+      setSettings(prev => ({
+        ...prev,
+        shortcuts: Object.fromEntries((Object.entries(prev.shortcuts) as [ShortcutAction, string[]][]).map(([action, keys]) => [
+          action,
+          action === recordingAction
+            ? [...keys.filter(k => normalizeKey(k) !== key), key]
+            : keys.filter(k => normalizeKey(k) !== key),
+        ])) as typeof prev.shortcuts,
+      }));
+    };
+    window.addEventListener('keydown', handleKey, { capture: true });
+    return () => window.removeEventListener('keydown', handleKey, { capture: true });
+  }, [recordingAction, setSettings]);
+
   if (!isOpen) return null;
 
   const updateSetting = (key: keyof AppSettings, value: number | boolean) => {
     setSettings(prev => ({ ...prev, [key]: value }));
   };
 
+  const updateCheckpoint = (id: string, key: keyof Omit<DetectionZone, 'id'>, value: number) => {
+    setSettings(prev => ({
+      ...prev,
+      checkpoints: prev.checkpoints.map(z => (z.id === id ? { ...z, [key]: value } : z)),
+    }));
+  };
+
+  const addCheckpoint = () => {
+    setSettings(prev => ({
+      ...prev,
+      checkpoints: [...prev.checkpoints, {
+        id: crypto.randomUUID(),
+        x: 25,
+        y: 50,
+        width: prev.detectionWidth,
+        height: prev.detectionHeight,
+      }],
+    }));
+  };
+
+  const removeCheckpoint = (id: string) => {
+    setSettings(prev => ({ ...prev, checkpoints: prev.checkpoints.filter(z => z.id !== id) }));
+  };
+
+  const updateLane = (id: string, key: keyof Omit<DetectionZone, 'id'>, value: number) => {
+    setSettings(prev => ({
+      ...prev,
+      lanes: prev.lanes.map(z => (z.id === id ? { ...z, [key]: value } : z)),
+    }));
+  };
+
+  const renameLane = (id: string, athleteName: string) => {
+    setSettings(prev => ({
+      ...prev,
+      lanes: prev.lanes.map(z => (z.id === id ? { ...z, athleteName } : z)),
+    }));
+  };
+
+  // New lanes are placed side by side across the frame
+  const addLane = () => {
+    setSettings(prev => ({
+      ...prev,
+      lanes: [...prev.lanes, {
+        id: crypto.randomUUID(),
+        athleteName: '',
+        x: Math.min(100, 20 + prev.lanes.length * 20),
+        y: 50,
+        width: prev.detectionWidth,
+        height: prev.detectionHeight,
+      }],
+    }));
+  };
+
+  const removeLane = (id: string) => {
+    setSettings(prev => ({ ...prev, lanes: prev.lanes.filter(z => z.id !== id) }));
+  };
+
+  const updateWorkout = (changes: Partial<IntervalWorkout>) => {
+    setSettings(prev => ({ ...prev, workout: { ...(prev.workout ?? DEFAULT_WORKOUT), ...changes } }));
+  };
+
+  const updateAudio = (changes: Partial<AudioSettings>) => {
+    setSettings(prev => ({ ...prev, audio: { ...prev.audio, ...changes } }));
+  };
+
+  const updateTrigger = (changes: Partial<TriggerSettings>) => {
+    setSettings(prev => ({ ...prev, trigger: { ...prev.trigger, ...changes } }));
+  };
+
+  const removeShortcut = (action: ShortcutAction, key: string) => {
+    setSettings(prev => ({ ...prev, shortcuts: { ...prev.shortcuts, [action]: prev.shortcuts[action].filter(k => k !== key) } }));
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name || !presets) return;
+    presets.onSave(name);
+    setPresetName('');
+  };
+
+  const importPreset = () => {
+    const shared = decodePreset(importText);
+    setImportFailed(!shared);
+    if (!shared || !presets) return;
+    presets.onImport(shared);
+    setImportText('');
+  };
+
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text).catch((e) => console.warn('Copy failed:', e));
+  };
+
+  // Plays a sample lap with the current settings
+  const testAudio = () => {
+    const { audio } = settings;
+    if (audio.lapTone) playCue(audio.paceTones ? 'faster' : 'lap', audio.toneStyle, audio.volume);
+    if (audio.speakLaps) speak(formatLapAnnouncement(4, 32150, 32350), audio.volume);
+  };
+
+  const updateCamera = (changes: Partial<CameraSettings>) => {
+    if (camera) camera.onChange({ ...camera.settings, ...changes });
+  };
+
+  // Modes beyond what the open camera reports are hidden; all are offered until it has reported
+  const capabilities = camera?.status?.capabilities;
+  const activeDeviceId = camera?.settings.deviceId ?? camera?.status?.deviceId;
+  const resolutions = CAMERA_RESOLUTIONS.filter(r => !capabilities?.maxWidth || (r.width <= capabilities.maxWidth && r.height <= capabilities.maxHeight));
+  const frameRates = CAMERA_FRAME_RATES.filter(rate => !capabilities?.maxFrameRate || rate <= capabilities.maxFrameRate);
+
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({ ...prev, [section]: !prev[section] }));
   };
@@ -48,8 +288,136 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
         {/* Content */}
         <div className="p-6 space-y-8 overflow-y-auto no-scrollbar">
           
-          {/* Zone Geometry Group */}
+          {/* Presets - named settings per venue, shareable as a link */}
+          {presets && (
           <div className="space-y-4">
+            <button
+              onClick={() => toggleSection('presets')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Bookmark size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Presets</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.presets ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.presets && (
+              <div className="space-y-4">
+                {presets.list.length === 0 && (
+                  <p className="text-[10px] font-mono text-slate-500">No presets yet. Save the current settings under a name such as “Indoor track lane 1”.</p>
+                )}
+
+                {presets.list.map((preset) => {
+                  const isActive = matchesPreset(settings, preset.settings);
+                  const link = sharingId === preset.id ? getPresetLink(encodePreset(preset.name, preset.settings)) : null;
+                  return (
+                    <div key={preset.id} className={`rounded-xl border p-2.5 space-y-2 ${isActive ? 'border-cyan-500/40 bg-cyan-500/5' : 'border-slate-800 bg-slate-800/30'}`}>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => presets.onApply(preset.id)}
+                          className={`flex-1 text-left text-xs font-mono truncate ${isActive ? 'text-cyan-400' : 'text-slate-300 hover:text-cyan-400'}`}
+                          title="Apply Preset"
+                        >
+                          {preset.name}
+                        </button>
+                        <button
+                          onClick={() => setSharingId(sharingId === preset.id ? null : preset.id)}
+                          className="p-1.5 text-slate-500 hover:text-cyan-400 hover:bg-slate-800 rounded-lg transition-colors"
+                          title="Share Link"
+                        >
+                          <Share2 size={14} />
+                        </button>
+                        <button
+                          onClick={() => presets.onDelete(preset.id)}
+                          className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-slate-800 rounded-lg transition-colors"
+                          title="Delete Preset"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                      {link && (
+                        <div className="flex items-center gap-1.5">
+                          <input
+                            readOnly
+                            value={link}
+                            onFocus={(e) => e.target.select()}
+                            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-400 font-mono text-[10px] focus:outline-none focus:border-cyan-500"
+                          />
+                          <button
+                            onClick={() => copyText(link)}
+                            className="p-1.5 text-slate-400 hover:text-cyan-400 bg-slate-800 border border-slate-700 rounded-lg transition-colors"
+                            title="Copy Link"
+                          >
+                            <Copy size={14} />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <div className="flex items-center gap-1.5">
+                  <input
+                    type="text"
+                    value={presetName}
+                    placeholder="Preset name"
+                    onChange={(e) => setPresetName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 font-mono text-xs focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50 placeholder:text-slate-600"
+                  />
+                  <button
+                    onClick={savePreset}
+                    disabled={!presetName.trim()}
+                    className="flex items-center gap-1.5 px-3 py-2 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+                    title="Save Current Settings"
+                  >
+                    <Check size={14} />
+                    <span className="text-[10px] font-mono font-bold uppercase tracking-wide">Save</span>
+                  </button>
+                </div>
+
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      type="text"
+                      value={importText}
+                      placeholder="Paste a preset link or code"
+                      onChange={(e) => {
+                        setImportText(e.target.value);
+                        setImportFailed(false);
+                      }}
+                      onKeyDown={(e) => e.key === 'Enter' && importPreset()}
+                      className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-slate-200 font-mono text-xs focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50 placeholder:text-slate-600"
+                    />
+                    <button
+                      onClick={importPreset}
+                      disabled={!importText.trim()}
+                      className="flex items-center gap-1.5 px-3 py-2 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+                      title="Import and Apply"
+                    >
+                      <Download size={14} />
+                      <span className="text-[10px] font-mono font-bold uppercase tracking-wide">Import</span>
+                    </button>
+                  </div>
+                  {importFailed && (
+                    <p className="text-[10px] font-mono text-rose-400">Not a preset link, or made by a newer version of LapTracker.</p>
+                  )}
+                </div>
+
+                <p className="text-[10px] font-mono text-slate-500">
+                  Presets leave this device's developer mode, off-main-thread capture, remote, gate and shortcut settings as they are.
+                </p>
+              </div>
+            )}
+          </div>
+          )}
+
+          {/* Zone Geometry Group */}
+          <div className={`space-y-4 ${presets ? 'border-t border-slate-800/80 pt-6' : ''}`}>
             <button
               onClick={() => toggleSection('zoneGeometry')}
               className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
@@ -85,6 +453,162 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
                   />
                 </div>
               ))}
+
+              {/* Crossing Direction - line-crossing mode ignores motion the other way */}
+              <div className="space-y-2.5">
+                <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                  <span>Crossing Direction</span>
+                </div>
+                <div className="grid grid-cols-5 gap-1.5">
+                  {CROSSING_DIRECTIONS.map(({ value, label, icon: Icon }) => (
+                    <button
+                      key={value}
+                      onClick={() => setSettings(prev => ({ ...prev, crossingDirection: value }))}
+                      className={`flex flex-col items-center gap-1 py-2 rounded-lg border text-[10px] font-mono font-bold transition-all active:scale-95 ${settings.crossingDirection === value
+                        ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                        : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                        }`}
+                      title={value === 'any' ? 'Count motion in any direction' : `Only count crossings ${label}`}
+                    >
+                      <Icon size={14} />
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Checkpoint Zones - each one adds a sector split */}
+              {settings.checkpoints.map((zone, index) => (
+                <div key={zone.id} className="space-y-3 p-3 bg-slate-800/40 border border-amber-500/20 rounded-xl">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2 text-[11px] font-mono font-bold text-amber-400/90">
+                      <Flag size={12} />
+                      <span>Checkpoint {index + 1}</span>
+                    </div>
+                    <button
+                      onClick={() => removeCheckpoint(zone.id)}
+                      className="p-1 text-slate-500 hover:text-rose-400 transition-colors"
+                      title="Remove Checkpoint"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                  {[
+                    { label: 'Horizontal', key: 'x', max: 100 },
+                    { label: 'Vertical', key: 'y', max: 100 },
+                    { label: 'Width', key: 'width', max: 50, min: 1 },
+                    { label: 'Height', key: 'height', max: 100, min: 1 },
+                  ].map((item) => (
+                    <div className="space-y-1.5" key={item.key}>
+                      <div className="flex justify-between text-[10px] font-mono font-medium text-slate-400">
+                        <span>{item.label}</span>
+                        <span className="text-amber-400/80">{zone[item.key as keyof Omit<DetectionZone, 'id'>]}%</span>
+                      </div>
+                      <input
+                        type="range" min={item.min || 0} max={item.max} step="1"
+                        value={zone[item.key as keyof Omit<DetectionZone, 'id'>]}
+                        onChange={(e) => updateCheckpoint(zone.id, item.key as keyof Omit<DetectionZone, 'id'>, parseInt(e.target.value))}
+                        className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-amber-400 hover:accent-amber-300 transition-colors"
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+
+              {settings.checkpoints.length < MAX_CHECKPOINTS && (
+                <button
+                  onClick={addCheckpoint}
+                  className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-slate-800 text-slate-400 hover:text-amber-400 hover:bg-slate-700 border border-slate-700 hover:border-amber-500/30 rounded-lg transition-all active:scale-95"
+                >
+                  <Plus size={14} />
+                  <span className="text-xs font-mono font-medium uppercase tracking-wide">Add Checkpoint</span>
+                </button>
+              )}
+              </div>
+            )}
+          </div>
+
+          {/* Lanes - one zone per athlete, each with its own lap list */}
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('lanes')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Users size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Lanes</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.lanes ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.lanes && (
+              <div className="space-y-4">
+                <button
+                  onClick={() => updateSetting('laneMode', !settings.laneMode)}
+                  className={`w-full flex items-center justify-between py-2 px-4 rounded-lg border transition-all active:scale-95 ${settings.laneMode
+                    ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/30'
+                    : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                    }`}
+                >
+                  <span className="text-xs font-mono font-medium uppercase tracking-wide">Multi-Lane Mode</span>
+                  {settings.laneMode ? <Check size={14} /> : <X size={14} />}
+                </button>
+                <p className="text-[10px] font-mono text-slate-500">
+                  Replaces the finish and checkpoint zones with one zone per lane. Each athlete gets their own lap list.
+                </p>
+
+                {settings.laneMode && settings.lanes.map((lane, index) => (
+                  <div key={lane.id} className="space-y-3 p-3 bg-slate-800/40 border border-emerald-500/20 rounded-xl">
+                    <div className="flex items-center justify-between gap-2">
+                      <input
+                        type="text"
+                        value={lane.athleteName}
+                        placeholder={`Lane ${index + 1}`}
+                        onChange={(e) => renameLane(lane.id, e.target.value)}
+                        className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs font-mono text-emerald-400 placeholder:text-slate-600 focus:outline-none focus:border-emerald-500"
+                      />
+                      <button
+                        onClick={() => removeLane(lane.id)}
+                        className="p-1 text-slate-500 hover:text-rose-400 transition-colors"
+                        title="Remove Lane"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                    {[
+                      { label: 'Horizontal', key: 'x', max: 100 },
+                      { label: 'Vertical', key: 'y', max: 100 },
+                      { label: 'Width', key: 'width', max: 50, min: 1 },
+                      { label: 'Height', key: 'height', max: 100, min: 1 },
+                    ].map((item) => (
+                      <div className="space-y-1.5" key={item.key}>
+                        <div className="flex justify-between text-[10px] font-mono font-medium text-slate-400">
+                          <span>{item.label}</span>
+                          <span className="text-emerald-400/80">{lane[item.key as keyof Omit<DetectionZone, 'id'>]}%</span>
+                        </div>
+                        <input
+                          type="range" min={item.min || 0} max={item.max} step="1"
+                          value={lane[item.key as keyof Omit<DetectionZone, 'id'>]}
+                          onChange={(e) => updateLane(lane.id, item.key as keyof Omit<DetectionZone, 'id'>, parseInt(e.target.value))}
+                          className="w-full h-1.5 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-emerald-400 hover:accent-emerald-300 transition-colors"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ))}
+
+                {settings.laneMode && settings.lanes.length < MAX_LANES && (
+                  <button
+                    onClick={addLane}
+                    className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-slate-800 text-slate-400 hover:text-emerald-400 hover:bg-slate-700 border border-slate-700 hover:border-emerald-500/30 rounded-lg transition-all active:scale-95"
+                  >
+                    <Plus size={14} />
+                    <span className="text-xs font-mono font-medium uppercase tracking-wide">Add Lane</span>
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -106,6 +630,68 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
 
             {expandedSections.sensitivity && (
               <div className="space-y-5">
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Detection Model</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-1.5">
+                    {([
+                      { value: 'frameDiff', label: 'Frame Diff' },
+                      { value: 'background', label: 'Adaptive Background' },
+                    ] as const).map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setSettings(prev => ({ ...prev, detectionModel: value }))}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${settings.detectionModel === value
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Detector</span>
+                  </div>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {DETECTOR_KINDS.map((kind) => (
+                      <button
+                        key={kind}
+                        onClick={() => setSettings(prev => ({ ...prev, detector: kind }))}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${settings.detector === kind
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {DETECTORS[kind].label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] font-mono text-slate-500">{DETECTORS[settings.detector].description}</p>
+                </div>
+
+                {settings.detectionModel === 'background' && (
+                  <div className="space-y-2.5">
+                    <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                      <span>Z-Score Threshold</span>
+                      <span className="text-cyan-400/80">{settings.zScoreThreshold.toFixed(1)}σ</span>
+                    </div>
+                    <input
+                      type="range" min="2" max="12" step="0.5" value={settings.zScoreThreshold}
+                      onChange={(e) => updateSetting('zScoreThreshold', parseFloat(e.target.value))}
+                      className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                    />
+                    <p className="text-[10px] font-mono text-slate-500">
+                      Triggers when the zone changes this many standard deviations above its learned noise level.
+                    </p>
+                  </div>
+                )}
+
+                {settings.detectionModel === 'frameDiff' && (
                 <div className="space-y-2.5">
               <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
                 <span>Motion Sensitivity</span>
@@ -117,6 +703,7 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
                 className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
               />
             </div>
+                )}
             <div className="space-y-2.5">
               <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
                 <span>Trigger Cooldown</span>
@@ -128,6 +715,118 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
                 className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
               />
                 </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-mono text-slate-400">Sub-Frame Timing</span>
+                  <button
+                    onClick={() => updateSetting('subFrameTiming', !settings.subFrameTiming)}
+                    className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                      settings.subFrameTiming ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                    }`}
+                  >
+                    <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.subFrameTiming ? 'translate-x-5' : 'translate-x-0'}`} />
+                  </button>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-mono text-slate-400">Off-Main-Thread Capture</span>
+                  <button
+                    onClick={() => updateSetting('offscreenCapture', !settings.offscreenCapture)}
+                    className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                      settings.offscreenCapture ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                    }`}
+                  >
+                    <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.offscreenCapture ? 'translate-x-5' : 'translate-x-0'}`} />
+                  </button>
+                </div>
+
+                <button
+                  onClick={onCalibrate}
+                  disabled={!onCalibrate}
+                  className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 hover:border-cyan-500/30 rounded-lg transition-all active:scale-95 disabled:opacity-40 disabled:pointer-events-none"
+                  title={onCalibrate ? 'Measure noise and passes to suggest values' : 'Stop monitoring to calibrate'}
+                >
+                  <Gauge size={14} />
+                  <span className="text-xs font-mono font-medium uppercase tracking-wide">Calibrate</span>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Advanced Detection */}
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('advanced')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Advanced Detection</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.advanced ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.advanced && (
+              <div className="space-y-5">
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Exit Threshold</span>
+                    <span className="text-cyan-400/80">{Math.round(settings.trigger.exitRatio * 100)}%</span>
+                  </div>
+                  <input
+                    type="range" min="20" max="100" step="5" value={Math.round(settings.trigger.exitRatio * 100)}
+                    onChange={(e) => updateTrigger({ exitRatio: parseInt(e.target.value) / 100 })}
+                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                  />
+                  <p className="text-[10px] font-mono text-slate-500">
+                    Motion lasts until the score drops below this share of the trigger threshold. Lower values stop a score hovering at the threshold from triggering twice.
+                  </p>
+                </div>
+
+                <div className="space-y-2.5">
+                  <WorkoutStepper
+                    label="Min Frames"
+                    value={settings.trigger.minFrames}
+                    min={1}
+                    max={10}
+                    onChange={(minFrames) => updateTrigger({ minFrames })}
+                  />
+                  <p className="text-[10px] font-mono text-slate-500">
+                    Consecutive frames of motion needed before a trigger. Filters single-frame flicker and noise.
+                  </p>
+                </div>
+
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Min Changed Area</span>
+                    <span className="text-cyan-400/80">{Math.round(settings.trigger.minChangedArea * 100)}%</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="50" step="1" value={Math.round(settings.trigger.minChangedArea * 100)}
+                    onChange={(e) => updateTrigger({ minChangedArea: parseInt(e.target.value) / 100 })}
+                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                  />
+                  <p className="text-[10px] font-mono text-slate-500">
+                    Share of the zone's pixels that must change. Ignores small movers such as insects and raindrops.
+                  </p>
+                </div>
+
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Pixel Change Threshold</span>
+                    <span className="text-cyan-400/80">{settings.trigger.pixelThreshold}</span>
+                  </div>
+                  <input
+                    type="range" min="10" max="200" step="5" value={settings.trigger.pixelThreshold}
+                    onChange={(e) => updateTrigger({ pixelThreshold: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                  />
+                  <p className="text-[10px] font-mono text-slate-500">
+                    How much a pixel must change to count toward the changed area.
+                  </p>
+                </div>
               </div>
             )}
           </div>
@@ -150,6 +849,44 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
 
             {expandedSections.sessionTargets && (
               <div className="space-y-4">
+                {/* Start Mode - Ready - Set - Go stamps lap 0 at the go signal */}
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Start Mode</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-1.5">
+                    {([
+                      { value: 'immediate', label: 'Immediate' },
+                      { value: 'readySetGo', label: 'Ready - Set - Go' },
+                    ] as const).map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setSettings(prev => ({ ...prev, startMode: value }))}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${settings.startMode === value
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {settings.startMode === 'readySetGo' && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-slate-400">Spoken Ready / Set</span>
+                    <button
+                      onClick={() => updateSetting('startVoice', !settings.startVoice)}
+                      className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                        settings.startVoice ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                      }`}
+                    >
+                      <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.startVoice ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between gap-4">
                   <label className="text-xs font-mono text-slate-400 whitespace-nowrap">Target Lap Count</label>
                   <div className="flex items-center gap-2">
@@ -230,6 +967,459 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
             )}
           </div>
 
+          {/* Interval Workout - sets of work and rest phases */}
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('workout')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Repeat size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Interval Workout</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.workout ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.workout && (
+              <div className="space-y-4">
+                <button
+                  onClick={() => setSettings(prev => ({ ...prev, workout: prev.workout ? null : DEFAULT_WORKOUT }))}
+                  className={`w-full flex items-center justify-between py-2 px-4 rounded-lg border transition-all active:scale-95 ${settings.workout
+                    ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/30'
+                    : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                    }`}
+                >
+                  <span className="text-xs font-mono font-medium uppercase tracking-wide">
+                    {settings.workout ? describeWorkout(settings.workout) : 'Continuous Session'}
+                  </span>
+                  {settings.workout ? <Check size={14} /> : <X size={14} />}
+                </button>
+
+                {settings.workout && (
+                  <>
+                    <WorkoutStepper label="Sets" value={settings.workout.sets} min={1} max={50} onChange={(sets) => updateWorkout({ sets })} />
+
+                    <div className="grid grid-cols-2 gap-1.5">
+                      {([
+                        { value: 'laps', label: 'Work: Laps' },
+                        { value: 'time', label: 'Work: Time' },
+                      ] as const).map(({ value, label }) => (
+                        <button
+                          key={value}
+                          onClick={() => updateWorkout({ workType: value })}
+                          className={`py-2 rounded-lg border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${settings.workout?.workType === value
+                            ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                            : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                            }`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {settings.workout.workType === 'laps' ? (
+                      <WorkoutStepper label="Laps per Set" value={settings.workout.workLaps} min={1} max={99} onChange={(workLaps) => updateWorkout({ workLaps })} />
+                    ) : (
+                      <WorkoutStepper label="Work Time" value={settings.workout.workSeconds} min={5} max={3600} step={5} unit="s" onChange={(workSeconds) => updateWorkout({ workSeconds })} />
+                    )}
+                    <WorkoutStepper label="Rest" value={settings.workout.restSeconds} min={0} max={3600} step={15} unit="s" onChange={(restSeconds) => updateWorkout({ restSeconds })} />
+
+                    <p className="text-[10px] font-mono text-slate-500">
+                      Replaces the session targets. Crossings during rest are ignored; each set starts when its rest ends.
+                      {settings.laneMode && ' Not used in multi-lane mode.'}
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Audio Feedback */}
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('audio')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Volume2 size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Audio Feedback</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.audio ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.audio && (
+              <div className="space-y-4">
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Volume</span>
+                    <span className="text-cyan-400/80">{settings.audio.volume}%</span>
+                  </div>
+                  <input
+                    type="range" min="0" max="100" step="5" value={settings.audio.volume}
+                    onChange={(e) => updateAudio({ volume: parseInt(e.target.value) })}
+                    className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-cyan-400 hover:accent-cyan-300"
+                  />
+                </div>
+
+                {AUDIO_TOGGLES.map(({ key, label }) => (
+                  <div key={key} className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-slate-400">{label}</span>
+                    <button
+                      onClick={() => updateAudio({ [key]: !settings.audio[key] })}
+                      className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                        settings.audio[key] ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                      }`}
+                    >
+                      <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.audio[key] ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                ))}
+
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Tone</span>
+                  </div>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {TONE_STYLES.map((style) => (
+                      <button
+                        key={style}
+                        onClick={() => {
+                          updateAudio({ toneStyle: style });
+                          playCue('lap', style, settings.audio.volume);
+                        }}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${settings.audio.toneStyle === style
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {style}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <button
+                  onClick={testAudio}
+                  className="w-full flex items-center justify-center gap-2 py-2 px-4 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 hover:border-cyan-500/30 rounded-lg transition-all active:scale-95"
+                >
+                  <Volume2 size={14} />
+                  <span className="text-xs font-mono font-medium uppercase tracking-wide">Test</span>
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Manual Timing - tap target and keyboard shortcuts (clickers and media keys send keys too) */}
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('manual')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Keyboard size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Manual Timing</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.manual ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.manual && (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-mono text-slate-400">Lap Tap Target</span>
+                  <button
+                    onClick={() => updateSetting('tapTarget', !settings.tapTarget)}
+                    className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                      settings.tapTarget ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                    }`}
+                  >
+                    <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.tapTarget ? 'translate-x-5' : 'translate-x-0'}`} />
+                  </button>
+                </div>
+
+                {SHORTCUT_ACTIONS.map(({ action, label }) => (
+                  <div key={action} className="space-y-1.5">
+                    <span className="text-[11px] font-mono font-medium text-slate-400">{label}</span>
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      {settings.shortcuts[action].map((key) => (
+                        <span key={key} className="flex items-center gap-1 pl-2 pr-1 py-1 bg-slate-800 border border-slate-700 rounded-lg text-[10px] font-mono text-slate-300">
+                          {formatKey(key)}
+                          <button
+                            onClick={() => removeShortcut(action, key)}
+                            className="p-0.5 text-slate-500 hover:text-rose-400 rounded"
+                            title="Remove Key"
+                          >
+                            <X size={10} />
+                          </button>
+                        </span>
+                      ))}
+                      <button
+                        onClick={() => setRecordingAction(recordingAction === action ? null : action)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-lg border text-[10px] font-mono transition-colors ${recordingAction === action
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40 animate-pulse'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-cyan-400'
+                          }`}
+                      >
+                        <Plus size={10} />
+                        {recordingAction === action ? 'Press a key…' : 'Add'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                <p className="text-[10px] font-mono text-slate-500">
+                  Presentation clickers and Bluetooth media remotes send keys too: press a button on one while adding to assign it. Manual laps count only while monitoring.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Camera - device, capture mode and locks, remembered per device */}
+          {camera && (
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('camera')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Video size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Camera</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.camera ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.camera && (
+              <div className="space-y-4">
+                {camera.devices.length > 1 && (
+                  <div className="space-y-1.5">
+                    {camera.devices.map((device, i) => (
+                      <button
+                        key={device.deviceId}
+                        onClick={() => camera.onChange({ ...camera.settings, deviceId: device.deviceId })}
+                        className={`w-full px-3 py-2 rounded-lg border text-left text-[11px] font-mono truncate transition-all active:scale-95 ${activeDeviceId === device.deviceId
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {device.label || `Camera ${i + 1}`}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Resolution</span>
+                    {camera.status && <span className="text-cyan-400/80">{camera.status.width}×{camera.status.height}</span>}
+                  </div>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {resolutions.map(({ width, height }) => (
+                      <button
+                        key={width}
+                        onClick={() => updateCamera({ width, height })}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold transition-all active:scale-95 ${camera.settings.width === width && camera.settings.height === height
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {height}p
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Frame Rate</span>
+                    {camera.status && <span className="text-cyan-400/80">{Math.round(camera.status.frameRate)} fps</span>}
+                  </div>
+                  <div className="grid grid-cols-4 gap-1.5">
+                    {frameRates.map(rate => (
+                      <button
+                        key={rate}
+                        onClick={() => updateCamera({ frameRate: rate })}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold transition-all active:scale-95 ${camera.settings.frameRate === rate
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {rate}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {capabilities?.exposure && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-slate-400">Lock Exposure</span>
+                    <button
+                      onClick={() => updateCamera({ lockExposure: !camera.settings.lockExposure })}
+                      className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                        camera.settings.lockExposure ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                      }`}
+                    >
+                      <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${camera.settings.lockExposure ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                )}
+                {capabilities?.focus && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-slate-400">Lock Focus</span>
+                    <button
+                      onClick={() => updateCamera({ lockFocus: !camera.settings.lockFocus })}
+                      className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                        camera.settings.lockFocus ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                      }`}
+                    >
+                      <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${camera.settings.lockFocus ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                )}
+                {capabilities?.whiteBalance && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-slate-400">Lock White Balance</span>
+                    <button
+                      onClick={() => updateCamera({ lockWhiteBalance: !camera.settings.lockWhiteBalance })}
+                      className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                        camera.settings.lockWhiteBalance ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                      }`}
+                    >
+                      <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${camera.settings.lockWhiteBalance ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                )}
+                {capabilities?.torch && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs font-mono text-slate-400">Torch</span>
+                    <button
+                      onClick={() => updateCamera({ torch: !camera.settings.torch })}
+                      className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                        camera.settings.torch ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                      }`}
+                    >
+                      <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${camera.settings.torch ? 'translate-x-5' : 'translate-x-0'}`} />
+                    </button>
+                  </div>
+                )}
+
+                <p className="text-[10px] font-mono text-slate-500 leading-relaxed">
+                  Locks hold the current auto setting so passing athletes don't shift the image. Settings are remembered for each camera.
+                </p>
+              </div>
+            )}
+          </div>
+          )}
+
+          {/* Linked Devices - remote scoreboard and two-camera gates over a local relay */}
+          {remoteStatus !== undefined && (
+          <div className="space-y-4 border-t border-slate-800/80 pt-6">
+            <button
+              onClick={() => toggleSection('remote')}
+              className="flex items-center justify-between w-full text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              <div className="flex items-center gap-2">
+                <Radio size={14} />
+                <span className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Linked Devices</span>
+              </div>
+              <ChevronDown
+                size={16}
+                className={`transition-transform duration-200 ${expandedSections.remote ? 'rotate-180' : ''}`}
+              />
+            </button>
+
+            {expandedSections.remote && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <label className="text-xs font-mono text-slate-400">Relay Address</label>
+                  <input
+                    value={settings.remoteRelayUrl}
+                    placeholder="ws://192.168.1.20:8787"
+                    onChange={(e) => setSettings(prev => ({ ...prev, remoteRelayUrl: e.target.value }))}
+                    className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-cyan-400 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50"
+                  />
+                  <p className="text-[10px] font-mono text-slate-500 leading-relaxed">
+                    Run <span className="text-slate-400">npm run relay</span> on a machine on this network. Leave empty to reach other tabs in this browser only.
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-mono text-slate-400">Publish Laps</span>
+                  <button
+                    onClick={() => updateSetting('remotePublish', !settings.remotePublish)}
+                    className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                      settings.remotePublish ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                    }`}
+                  >
+                    <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.remotePublish ? 'translate-x-5' : 'translate-x-0'}`} />
+                  </button>
+                </div>
+
+                {settings.remotePublish && (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                      <span>Scoreboard Link</span>
+                      <span className={remoteStatus === 'open' ? 'text-emerald-400' : 'text-amber-400'}>
+                        {remoteStatus === 'open' ? 'Connected' : remoteStatus === 'connecting' ? 'Connecting' : 'Offline'}
+                      </span>
+                    </div>
+                    <div className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] font-mono text-slate-300 break-all select-all">
+                      {`${window.location.origin}/#display?remote${settings.remoteRelayUrl.trim() ? `=${settings.remoteRelayUrl.trim()}` : ''}`}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2.5">
+                  <div className="flex justify-between text-[11px] font-mono font-medium text-slate-400">
+                    <span>Two-Camera Gate</span>
+                    {gateLink && settings.gateRole !== 'off' && (
+                      <span className={gateLink.linked ? 'text-emerald-400' : 'text-amber-400'}>
+                        {gateLink.linked ? 'Linked' : `Waiting for ${settings.gateRole === 'start' ? 'finish' : 'start'} gate`}
+                      </span>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {GATE_ROLES.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setSettings(prev => ({ ...prev, gateRole: value }))}
+                        disabled={settings.laneMode}
+                        className={`py-2 rounded-lg border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 disabled:opacity-40 ${settings.gateRole === value
+                          ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                          : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                          }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {gateLink?.sync && settings.gateRole === 'finish' && (
+                    <div className="flex justify-between text-[10px] font-mono text-slate-500">
+                      <span>Clock offset {gateLink.sync.offset >= 0 ? '+' : ''}{gateLink.sync.offset.toFixed(1)} ms</span>
+                      <span className="text-cyan-400/80">{formatUncertainty(getSyncUncertainty(gateLink.sync))}</span>
+                    </div>
+                  )}
+                  <p className="text-[10px] font-mono text-slate-500 leading-relaxed">
+                    {settings.laneMode
+                      ? 'Not available in lane mode.'
+                      : 'Point one device at the start line and one at the finish; runs are timed on the finish device.'}
+                  </p>
+                </div>
+              </div>
+            )}
+          </div>
+          )}
+
           <div className="space-y-4 pt-6 border-t border-slate-800/80">
             <button
               onClick={() => toggleSection('displayOptions')}
@@ -273,6 +1463,30 @@ export default function ConfigTab({ settings, setSettings, isOpen, onClose }: Co
                   <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.showCurrentLapDisplay ? 'translate-x-5' : 'translate-x-0'}`} />
                 </button>
               </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-mono text-slate-400">Photo-Finish Snapshots</span>
+                <button
+                  onClick={() => updateSetting('photoFinish', !settings.photoFinish)}
+                  className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                    settings.photoFinish ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                  }`}
+                >
+                  <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.photoFinish ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className={`text-xs font-mono ${settings.laneMode ? 'text-slate-600' : 'text-slate-400'}`}>Slit-Scan Strip{settings.laneMode && ' (not in lane mode)'}</span>
+                <button
+                  onClick={() => updateSetting('slitScan', !settings.slitScan)}
+                  className={`w-12 h-7 flex items-center rounded-full p-1 transition-all duration-300 ${
+                    settings.slitScan ? 'bg-cyan-500/90 shadow-[0_0_10px_rgba(6,182,212,0.4)]' : 'bg-slate-800 border border-slate-700'
+                  }`}
+                >
+                  <div className={`bg-white w-5 h-5 rounded-full shadow-sm transform transition-transform duration-300 ${settings.slitScan ? 'translate-x-5' : 'translate-x-0'}`} />
+                </button>
+              </div>
               </div>
             )}
           </div>
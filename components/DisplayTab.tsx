@@ -1,18 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Lap, AppSettings } from '../types';
-import { X, Play, Pause, Trophy, Plus, Minus, Trash2, Home, Settings } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Lap, AppSettings, LapStats, LaneStats, OfflineGap, Athlete, AthleteStats, WorkoutPhase, StartRecord } from '../types';
+import { RemoteStatus } from '../services/remoteLink';
+import { getOfflineDuration, computeSectorStats, getLeadingLaneId, getCompletedLaps } from '../utils/lapStats';
+import { computeSetStats, getPhaseEndsAt, getSetLaps } from '../utils/workout';
+import { formatUncertainty } from '../utils/clockSync';
+import { clockNow } from '../utils/frameTiming';
+import { X, Play, Pause, Trophy, Plus, Minus, Trash2, Home, Settings, History, Radio } from 'lucide-react';
 
 interface DisplayTabProps {
-  stats: {
-    average: number;
-    count: number;
-    last: number;
-    fastest: number;
-    slowest: number;
-    isFinished: boolean;
-    targetLaps: number;
-    targetDuration: number;
-  };
+  stats: LapStats;
   laps: Lap[];
   isMonitoring: boolean;
   toggleMonitoring: () => void;
@@ -22,6 +18,14 @@ interface DisplayTabProps {
   settings: AppSettings;
   setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
   onOpenSettings: () => void;
+  offlineGaps?: OfflineGap[]; // Periods where detection was down (session resumed after an interruption)
+  laneStats?: LaneStats[]; // Multi-lane mode: replaces the single-athlete stats with one column per lane
+  athlete?: Athlete; // Who is running (or ran, when reviewing)
+  athleteStats?: AthleteStats; // The athlete's all-time figures from earlier sessions
+  workoutPhase?: WorkoutPhase | null; // Live interval workout phase (unset when reviewing)
+  start?: StartRecord; // Ready - Set - Go outcome
+  reviewTitle?: string; // Set when showing an archived session from History (read-only)
+  remoteStatus?: RemoteStatus; // Set when mirroring a sensor device as a remote scoreboard (read-only)
 }
 
 const formatTime = (ms: number) => {
@@ -31,8 +35,13 @@ const formatTime = (ms: number) => {
 };
 
 const STORAGE_KEY_FONT_SCALE = 'laptrack-font-scale';
+const GATE_RUNS_SHOWN = 5;
+
+export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring, onExit, onReset, lastActivity, settings, setSettings, onOpenSettings, offlineGaps = [], laneStats, athlete, athleteStats, workoutPhase, start, reviewTitle, remoteStatus }: DisplayTabProps) {
+  const isReview = reviewTitle !== undefined;
+  // Session controls belong to the device that owns the session
+  const isReadOnly = isReview || remoteStatus !== undefined;
 
-export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring, onExit, onReset, lastActivity, settings, setSettings, onOpenSettings }: DisplayTabProps) {
   // Using ref for direct DOM updates (60fps performance optimization)
   const [pulseType, setPulseType] = useState<'none' | 'fast' | 'slow'>('none');
 
@@ -49,10 +58,31 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
 
   const [showControls, setShowControls] = useState(false);
 
+  const sectorStats = useMemo(
+    () => (laneStats ? [] : computeSectorStats(laps, settings.checkpoints.length)),
+    [laps, settings.checkpoints.length, laneStats]
+  );
+
+  const leadingLaneId = useMemo(() => (laneStats ? getLeadingLaneId(laneStats) : null), [laneStats]);
+
+  const workout = laneStats ? null : settings.workout;
+  const isResting = workoutPhase?.kind === 'rest';
+  const setStats = useMemo(
+    () => (workout && stats.isFinished ? computeSetStats(laps, workout.sets) : []),
+    [workout, laps, stats.isFinished]
+  );
+
+  // Two-camera runs, newest first, each with the clock sync uncertainty it was timed with
+  const gateRuns = useMemo(
+    () => getCompletedLaps(laps).filter(l => l.uncertainty !== undefined).slice(-GATE_RUNS_SHOWN).reverse(),
+    [laps]
+  );
+
   const lastProcessedLapRef = useRef<number>(0);
   const controlsTimeoutRef = useRef<number | null>(null);
   const currentTimeRef = useRef<HTMLDivElement>(null);
   const sessionTimeRef = useRef<HTMLDivElement>(null);
+  const phaseTimeRef = useRef<HTMLDivElement>(null);
 
   // Persist fontScale to localStorage
   useEffect(() => {
@@ -83,7 +113,7 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
 
   // Direct DOM updates for 60fps timer (avoids React re-renders)
   useEffect(() => {
-    if (!isMonitoring || laps.length === 0 || lastActivity === 0 || stats.isFinished) {
+    if (!isMonitoring || laps.length === 0 || lastActivity === 0 || stats.isFinished || isResting) {
       if (currentTimeRef.current) currentTimeRef.current.textContent = formatTime(0);
       return;
     }
@@ -91,13 +121,31 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
     let frameId: number;
     const update = () => {
       if (currentTimeRef.current) {
-        currentTimeRef.current.textContent = formatTime(Date.now() - lastActivity);
+        currentTimeRef.current.textContent = formatTime(clockNow() - lastActivity);
       }
       frameId = requestAnimationFrame(update);
     };
     update();
     return () => cancelAnimationFrame(frameId);
-  }, [isMonitoring, laps.length, lastActivity, stats.isFinished]);
+  }, [isMonitoring, laps.length, lastActivity, stats.isFinished, isResting]);
+
+  // Countdown for the rest or timed work phase of an interval workout
+  useEffect(() => {
+    const endsAt = workout && workoutPhase ? getPhaseEndsAt(workoutPhase, workout) : null;
+    if (!isMonitoring || endsAt === null) return;
+
+    let frameId: number;
+    const update = () => {
+      if (phaseTimeRef.current) {
+        // Rounded up so the countdown reads 0:00 only as the phase ends
+        const remaining = Math.ceil(Math.max(0, endsAt - clockNow()) / 1000);
+        phaseTimeRef.current.textContent = `${Math.floor(remaining / 60)}:${(remaining % 60).toString().padStart(2, '0')}`;
+      }
+      frameId = requestAnimationFrame(update);
+    };
+    update();
+    return () => cancelAnimationFrame(frameId);
+  }, [isMonitoring, workout, workoutPhase]);
 
   // Direct DOM updates for session time timer (60fps)
   useEffect(() => {
@@ -112,7 +160,7 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
     let frameId: number;
     const update = () => {
       if (sessionTimeRef.current) {
-        const elapsed = Date.now() - sessionStartTime;
+        const elapsed = clockNow() - sessionStartTime;
         const remaining = Math.max(0, targetDurationMs - elapsed);
         const minutes = Math.floor(remaining / 60000);
         const seconds = Math.floor((remaining % 60000) / 1000);
@@ -172,6 +220,18 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
         <div className="absolute inset-0 bg-gradient-to-t from-rose-500/30 via-transparent to-rose-500/30 blur-3xl" />
       </div>
 
+      {/* Remote Link Status (Top Left) - dims while the sensor device is unreachable */}
+      {remoteStatus && (
+        <div className={`absolute top-6 left-6 z-[60] flex items-center gap-2 px-3 py-1.5 rounded-full border font-mono text-xs font-bold uppercase tracking-widest transition-colors ${remoteStatus === 'open'
+          ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400'
+          : 'bg-amber-500/10 border-amber-500/30 text-amber-400 animate-pulse'
+          }`}
+        >
+          <Radio size={14} />
+          {remoteStatus === 'open' ? 'Remote' : remoteStatus === 'connecting' ? 'Connecting' : 'Offline'}
+        </div>
+      )}
+
       {/* Unified Controls Group (Top Right) */}
       <div className={`absolute top-6 right-6 z-[60] flex flex-col gap-3 transition-all duration-500 ${showControls ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4 pointer-events-none'}`}>
         {/* Core Controls */}
@@ -200,18 +260,20 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
           <Settings size={24} className="group-hover:rotate-90 transition-transform duration-500" />
         </button>
 
-        <button
-          onClick={(e) => { e.stopPropagation(); toggleMonitoring(); }}
-          className={`p-3.5 rounded-full backdrop-blur-md shadow-lg border transition-all active:scale-95 ${isMonitoring
-            ? 'bg-rose-500/10 text-rose-400 hover:bg-rose-500/20 border-rose-500/30'
-            : 'bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 border-emerald-500/30'
-            }`}
-          title={isMonitoring ? "Stop Monitoring" : "Start Monitoring"}
-        >
-          {isMonitoring ? <Pause size={24} /> : <Play size={24} />}
-        </button>
+        {!isReadOnly && (
+          <button
+            onClick={(e) => { e.stopPropagation(); toggleMonitoring(); }}
+            className={`p-3.5 rounded-full backdrop-blur-md shadow-lg border transition-all active:scale-95 ${isMonitoring
+              ? 'bg-rose-500/10 text-rose-400 hover:bg-rose-500/20 border-rose-500/30'
+              : 'bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 border-emerald-500/30'
+              }`}
+            title={isMonitoring ? "Stop Monitoring" : "Start Monitoring"}
+          >
+            {isMonitoring ? <Pause size={24} /> : <Play size={24} />}
+          </button>
+        )}
 
-        {laps.length > 0 && (
+        {!isReadOnly && laps.length > 0 && (
           <button
             onClick={(e) => { e.stopPropagation(); onReset(); }}
             className="p-3.5 bg-slate-800/80 text-slate-400 rounded-full hover:bg-rose-950/50 hover:text-rose-400 backdrop-blur-md shadow-lg border border-slate-700/50 transition-all active:scale-95"
@@ -243,17 +305,78 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
 
       <div className="flex flex-col items-center justify-center portrait:rotate-90 transition-transform duration-500 origin-center text-center z-20 relative">
 
-        {/* Header Label - ONLY Session Complete */}
+        {/* Header Label - Session Complete (or the archived session's name) */}
         <div className="flex flex-col items-center mb-[-2vmax]">
-          {stats.isFinished && (
+          {isReview ? (
+            <div className="flex items-center gap-3 text-cyan-400 mb-4 filter drop-shadow-[0_0_10px_rgba(34,211,238,0.4)]">
+              <History size={28} />
+              <span className="uppercase tracking-[0.3em] font-black" style={{ fontSize: 'min(2.5vmax, 2.5vmin)' }}>{reviewTitle}</span>
+            </div>
+          ) : stats.isFinished && (
             <div className="flex items-center gap-3 text-amber-400 animate-bounce mb-4 filter drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">
               <Trophy size={28} className="fill-current" />
               <span className="uppercase tracking-[0.3em] font-black" style={{ fontSize: 'min(2.5vmax, 2.5vmin)' }}>Session Complete</span>
             </div>
           )}
+
+          {/* Athlete Badge - all-time figures exclude the session on screen */}
+          {athlete && !laneStats && (
+            <div className="flex items-center gap-3 mb-4 font-mono uppercase tracking-widest" style={{ fontSize: `min(${1.4 * fontScale}vmax, ${1.8 * fontScale}vmin)` }}>
+              <span className="flex items-center gap-2 font-bold text-slate-200">
+                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: athlete.color }} />
+                {athlete.name}
+              </span>
+              {athleteStats && athleteStats.lapCount > 0 && (
+                <>
+                  <span className="text-slate-700">|</span>
+                  <span className="text-slate-500">PB <span className="text-emerald-400 font-bold">{formatTime(athleteStats.personalBest)}</span></span>
+                  <span className="text-slate-500">All-time <span className="text-cyan-400 font-bold">{formatTime(athleteStats.average)}</span></span>
+                </>
+              )}
+              {athleteStats && athleteStats.lapCount > 0 && stats.fastest > 0 && stats.fastest < athleteStats.personalBest && (
+                <span className="px-2 py-0.5 rounded-full bg-emerald-500/15 border border-emerald-500/40 text-emerald-400 font-bold">New PB</span>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Lane Columns - multi-lane mode shows each athlete side by side */}
+        {laneStats && (
+          <div className="flex items-stretch justify-center gap-[3vmin]">
+            {laneStats.map((lane) => {
+              const isLeader = lane.laneId === leadingLaneId;
+              return (
+                <div
+                  key={lane.laneId}
+                  className={`flex flex-col items-center px-[3vmin] py-[2vmin] rounded-3xl border transition-all duration-300 ${isLeader
+                    ? 'border-amber-400/60 bg-amber-500/10 shadow-[0_0_30px_rgba(251,191,36,0.15)]'
+                    : 'border-slate-800 bg-slate-900/40'
+                    }`}
+                >
+                  <div className={`flex items-center gap-2 uppercase tracking-[0.2em] font-bold ${isLeader ? 'text-amber-400' : 'text-slate-400'}`} style={{ fontSize: `min(${1.8 * fontScale}vmax, ${2.2 * fontScale}vmin)` }}>
+                    {isLeader && <Trophy size={18} className="fill-current" />}
+                    {lane.athleteName}
+                  </div>
+                  <div className="font-sans tabular-nums font-black leading-tight text-white" style={{ fontSize: `min(${12 * fontScale}vmax, ${18 * fontScale}vmin)` }}>
+                    {formatTime(lane.stats.average)}
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-[3vmin] font-mono tabular-nums" style={{ fontSize: `min(${1.4 * fontScale}vmax, ${2 * fontScale}vmin)` }}>
+                    <span className="text-slate-500 uppercase tracking-widest">Last</span>
+                    <span className="text-slate-500 uppercase tracking-widest">Laps</span>
+                    <span className="font-bold text-cyan-400">{formatTime(lane.stats.last)}</span>
+                    <span className="font-bold text-slate-200">
+                      {lane.stats.count}
+                      {stats.targetLaps > 0 && <span className="text-slate-600">/{stats.targetLaps}</span>}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Main Stat (Average) */}
+        {!laneStats && (
         <div
           className={`font-sans tabular-nums font-black leading-tight tracking-tight flex items-baseline justify-center transition-all duration-300 ease-out ${stats.isFinished ? 'text-transparent bg-clip-text bg-gradient-to-b from-white to-slate-400 drop-shadow-[0_0_20px_rgba(255,255,255,0.15)]' : getDisplayColor()} ${pulseType !== 'none' ? 'scale-105' : 'scale-100'}`}
           style={{
@@ -264,6 +387,41 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
         >
           {formatTime(stats.average)}
         </div>
+        )}
+
+        {/* Gate Runs - run times from the two-camera start/finish gates */}
+        {gateRuns.length > 0 && (
+          <div className="mt-3 flex flex-col items-center gap-1 font-mono tabular-nums" style={{ fontSize: `min(${1.6 * fontScale}vmax, ${2.2 * fontScale}vmin)` }}>
+            {gateRuns.map((run, i) => (
+              <div key={run.id} className={`flex items-baseline gap-3 ${i === 0 ? 'text-white font-bold' : 'text-slate-500'}`}>
+                <span>{(run.duration / 1000).toFixed(3)}</span>
+                <span className="text-cyan-400/70" style={{ fontSize: '0.6em' }}>{formatUncertainty(run.uncertainty!)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Workout Phase - set progress while working, rest countdown between sets */}
+        {workout && workoutPhase && workoutPhase.kind !== 'done' && (
+          <div className="flex flex-col items-center mt-3">
+            <div className={`uppercase tracking-widest font-bold mb-1 ${isResting ? 'text-amber-400' : 'text-slate-500'}`} style={{ fontSize: 'min(1.5vmax, 1.5vmin)' }}>
+              {isResting
+                ? `Rest · Next Set ${workoutPhase.setIndex + 2} of ${workout.sets}`
+                : `Set ${workoutPhase.setIndex + 1} of ${workout.sets}${workout.workType === 'laps'
+                  ? ` · Lap ${Math.min(getSetLaps(laps, workoutPhase.setIndex).length + 1, workout.workLaps)}/${workout.workLaps}`
+                  : ''}`}
+            </div>
+            {(isResting || workout.workType === 'time') && (
+              <div
+                ref={phaseTimeRef}
+                className={`font-mono tabular-nums font-bold leading-tight ${isResting ? 'text-amber-400 drop-shadow-[0_0_10px_rgba(251,191,36,0.3)]' : 'text-cyan-400'}`}
+                style={{ fontSize: isResting ? 'min(10vmax, 14vmin)' : 'min(4vmax, 6vmin)' }}
+              >
+                0:00
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Session Time Remaining - Only when target duration is set and not finished */}
         {!stats.isFinished && stats.targetDuration > 0 && laps.length > 0 && (
@@ -281,8 +439,49 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
           </div>
         )}
 
+        {/* Start Outcome - reaction (go to first crossing) and false start flag */}
+        {start && (start.falseStart || start.reactionTime !== undefined) && (
+          <div className="mt-2 flex items-center gap-3 font-mono uppercase tracking-widest font-bold" style={{ fontSize: 'min(1.2vmax, 1.2vmin)' }}>
+            {start.reactionTime !== undefined && (
+              <span className="px-3 py-1 rounded-md bg-cyan-500/10 border border-cyan-500/20 text-cyan-400/90">
+                Reaction {(start.reactionTime / 1000).toFixed(3)}s
+              </span>
+            )}
+            {start.falseStart && (
+              <span className="px-3 py-1 rounded-md bg-rose-500/10 border border-rose-500/30 text-rose-400">False Start</span>
+            )}
+          </div>
+        )}
+
+        {/* Offline Gap Marker - laps spanning a gap include time when detection was down */}
+        {offlineGaps.length > 0 && (
+          <div className="mt-2 px-3 py-1 rounded-md bg-amber-500/10 border border-amber-500/20 text-amber-400/90 font-mono uppercase tracking-widest font-bold" style={{ fontSize: 'min(1.2vmax, 1.2vmin)' }}>
+            Detection offline {(getOfflineDuration(offlineGaps) / 1000).toFixed(1)}s
+            {offlineGaps.length > 1 && ` (${offlineGaps.length} gaps)`}
+          </div>
+        )}
+
+        {/* Sector Splits - last and best time per sector */}
+        {sectorStats.length > 0 && (
+          <div className="mt-6 flex items-start justify-center gap-8">
+            {sectorStats.map((sector, i) => (
+              <div key={i} className="flex flex-col items-center">
+                <span className="text-amber-500 uppercase tracking-[0.2em] font-bold opacity-80" style={{ fontSize: 'min(1.2vmax, 1.2vmin)' }}>
+                  S{i + 1}
+                </span>
+                <div className="font-mono tabular-nums font-bold text-white" style={{ fontSize: 'min(3.5vmax, 5vmin)' }}>
+                  {formatTime(sector.last)}
+                </div>
+                <div className="font-mono tabular-nums text-emerald-400/80 uppercase tracking-widest" style={{ fontSize: 'min(1.1vmax, 1.1vmin)' }}>
+                  Best {formatTime(sector.best)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Secondary Stats Section */}
-        {stats.isFinished ? (
+        {laneStats ? null : stats.isFinished ? (
           <div className="mt-8 grid grid-cols-2 gap-x-16 gap-y-4 border-t border-slate-800/50 pt-8">
             <div className="flex flex-col items-center group">
               <span className="text-emerald-500 uppercase tracking-[0.2em] font-bold mb-1 opacity-80" style={{ fontSize: 'min(1.5vmax, 1.5vmin)' }}>Fastest</span>
@@ -296,6 +495,24 @@ export default function DisplayTab({ stats, laps, isMonitoring, toggleMonitoring
                 {formatTime(stats.slowest)}
               </div>
             </div>
+            {/* Per-set averages of an interval workout */}
+            {setStats.length > 0 && (
+              <div className="col-span-2 flex flex-wrap items-start justify-center gap-x-8 gap-y-3">
+                {setStats.map((set) => (
+                  <div key={set.setIndex} className="flex flex-col items-center">
+                    <span className="text-cyan-500 uppercase tracking-[0.2em] font-bold opacity-80" style={{ fontSize: 'min(1.1vmax, 1.1vmin)' }}>
+                      Set {set.setIndex + 1}
+                    </span>
+                    <div className="font-mono tabular-nums font-bold text-white" style={{ fontSize: 'min(3vmax, 4.5vmin)' }}>
+                      {formatTime(set.average)}
+                    </div>
+                    <div className="font-mono tabular-nums text-slate-500 uppercase tracking-widest" style={{ fontSize: 'min(1vmax, 1vmin)' }}>
+                      {set.count} laps
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="col-span-2 text-slate-500 font-mono mt-4 uppercase tracking-widest font-medium space-y-1" style={{ fontSize: 'min(1.2vmax, 1.2vmin)' }}>
               <div>Completed {stats.count} Laps</div>
               {stats.targetDuration > 0 && laps.length > 0 && (
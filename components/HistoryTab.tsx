@@ -0,0 +1,386 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Athlete, Session, SessionEndReason } from '../types';
+import { listSessions, getSession, renameSession, deleteSession, saveSession } from '../services/sessionStore';
+import { downloadSession, shareSession, canShareFiles, importSessionFile } from '../services/sessionExport';
+import { listSlitScanSessionIds } from '../services/slitScanStore';
+import { computeSessionStats, computeAthleteStats } from '../utils/lapStats';
+import LapList from './LapList';
+import PhotoFinishViewer from './PhotoFinishViewer';
+import SlitScanViewer from './SlitScanViewer';
+import { History, X, Maximize2, Pencil, Trash2, Check, Upload, FileSpreadsheet, FileJson, Share2, ChevronDown, ScanLine } from 'lucide-react';
+
+interface HistoryTabProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpenSession: (session: Session) => void;
+  currentSession: Session | null; // Live session, exportable before it is archived
+  athletes: Athlete[];
+}
+
+const formatTime = (ms: number) => (ms <= 0 ? '--.--' : (ms / 1000).toFixed(2));
+
+// The live session may also be listed once archived; its lap list opens separately
+const CURRENT_SESSION_KEY = 'current';
+
+const END_REASON_LABELS: Record<SessionEndReason, string> = {
+  targetLaps: 'Lap target',
+  targetDuration: 'Time target',
+  workoutComplete: 'Workout done',
+  manual: 'Stopped',
+  interrupted: 'Interrupted',
+};
+
+const ExportButtons = ({ session, canShare, onError }: { session: Session; canShare: boolean; onError: (message: string) => void }) => (
+  <div className="flex items-center gap-2">
+    <button
+      onClick={() => downloadSession(session, 'csv')}
+      className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95 text-[10px] font-mono font-bold uppercase tracking-wide"
+      title="Download CSV"
+    >
+      <FileSpreadsheet size={12} /> CSV
+    </button>
+    <button
+      onClick={() => downloadSession(session, 'json')}
+      className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95 text-[10px] font-mono font-bold uppercase tracking-wide"
+      title="Download JSON"
+    >
+      <FileJson size={12} /> JSON
+    </button>
+    {canShare && (
+      <button
+        onClick={() => shareSession(session).catch((e) => {
+          console.error('Failed to share session:', e);
+          onError('Sharing failed. Try downloading instead.');
+        })}
+        className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-800 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-lg transition-all active:scale-95 text-[10px] font-mono font-bold uppercase tracking-wide"
+        title="Share CSV and JSON"
+      >
+        <Share2 size={12} /> Share
+      </button>
+    )}
+  </div>
+);
+
+export default function HistoryTab({ isOpen, onClose, onOpenSession, currentSession, athletes }: HistoryTabProps) {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [canShare] = useState(canShareFiles);
+  const [athleteFilter, setAthleteFilter] = useState<string | null>(null);
+  // Session whose lap list is open, and the lap open in the photo-finish viewer
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [viewer, setViewer] = useState<{ lapId: string; title: string } | null>(null);
+  const openSnapshot = (lapId: string, title: string) => setViewer({ lapId, title });
+  // Sessions with a slit-scan strip, and the one open in the strip viewer
+  const [slitScanIds, setSlitScanIds] = useState<Set<string>>(new Set());
+  const [stripSession, setStripSession] = useState<Session | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await listSessions());
+      setError(null);
+      setSlitScanIds(await listSlitScanSessionIds());
+    } catch (e) {
+      console.error('Failed to load session history:', e);
+      setError('Session history is unavailable in this browser.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setNotice(null);
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const filteredSessions = athleteFilter ? sessions.filter(s => s.athleteId === athleteFilter) : sessions;
+  const filteredAthlete = athletes.find(a => a.id === athleteFilter);
+  const athleteStats = filteredAthlete ? computeAthleteStats(filteredSessions) : null;
+
+  const startRename = (session: Session) => {
+    setEditingId(session.id);
+    setDraftName(session.name);
+  };
+
+  const commitRename = async () => {
+    if (!editingId) return;
+    const name = draftName.trim();
+    setEditingId(null);
+    if (!name) return;
+    try {
+      await renameSession(editingId, name);
+      await refresh();
+    } catch (e) {
+      console.error('Failed to rename session:', e);
+    }
+  };
+
+  const handleDelete = async (session: Session) => {
+    if (!window.confirm(`Delete "${session.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      await refresh();
+    } catch (e) {
+      console.error('Failed to delete session:', e);
+    }
+  };
+
+  // Imported sessions are added to the history, then opened in the stats view
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await importSessionFile(file);
+      // A session already in the history (a re-import, or an id from another device) is
+      // added as a new entry rather than overwriting it
+      const session = (await getSession(imported.id)) ? { ...imported, id: crypto.randomUUID() } : imported;
+      await saveSession(session);
+      onOpenSession(session);
+    } catch (err) {
+      console.error('Failed to import session:', err);
+      setNotice(err instanceof Error ? err.message : 'Import failed.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 animate-in fade-in duration-200">
+      <div className="bg-slate-900/95 border border-slate-700 shadow-2xl rounded-3xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-800 bg-slate-900/50">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <History size={20} className="drop-shadow-[0_0_8px_rgba(34,211,238,0.5)]" />
+            <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200">History</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-800 rounded-full transition-colors"
+              title="Import Session (JSON)"
+            >
+              <Upload size={18} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <button
+              onClick={onClose}
+              className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 space-y-3 overflow-y-auto no-scrollbar">
+          {notice && (
+            <p className="text-xs font-mono text-rose-400 bg-rose-950/30 border border-rose-900/50 rounded-xl px-3 py-2">{notice}</p>
+          )}
+
+          {currentSession && (
+            <div className="bg-cyan-950/20 border border-cyan-500/20 rounded-2xl p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold uppercase tracking-widest text-cyan-400">Current Session</span>
+                <span className="flex items-center gap-2 text-[10px] font-mono text-slate-500">
+                  {computeSessionStats(currentSession).count} laps
+                  {slitScanIds.has(currentSession.id) && (
+                    <button
+                      onClick={() => setStripSession(currentSession)}
+                      className="p-1 text-slate-400 hover:text-cyan-400 hover:bg-slate-800 rounded-md transition-colors"
+                      title="Open Slit-Scan Strip"
+                    >
+                      <ScanLine size={14} />
+                    </button>
+                  )}
+                </span>
+              </div>
+              <ExportButtons session={currentSession} canShare={canShare} onError={setNotice} />
+              <button
+                onClick={() => setExpandedId(id => (id === CURRENT_SESSION_KEY ? null : CURRENT_SESSION_KEY))}
+                className="w-full flex items-center justify-between text-[10px] font-mono font-bold uppercase tracking-wide text-slate-500 hover:text-slate-300 transition-colors"
+              >
+                <span>Laps</span>
+                <ChevronDown size={14} className={`transition-transform duration-200 ${expandedId === CURRENT_SESSION_KEY ? 'rotate-180' : ''}`} />
+              </button>
+              {expandedId === CURRENT_SESSION_KEY && <LapList session={currentSession} onOpenSnapshot={openSnapshot} />}
+            </div>
+          )}
+
+          {/* Athlete Filter */}
+          {athletes.length > 0 && (
+            <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+              {[{ id: null, name: 'All', color: null }, ...athletes].map(({ id, name, color }) => (
+                <button
+                  key={id ?? 'all'}
+                  onClick={() => setAthleteFilter(id)}
+                  className={`flex-none flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${athleteFilter === id
+                    ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                    : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                    }`}
+                >
+                  {color && <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />}
+                  {name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* All-time figures for the filtered athlete */}
+          {filteredAthlete && athleteStats && (
+            <div className="bg-slate-800/30 border rounded-2xl p-4 space-y-3" style={{ borderColor: `${filteredAthlete.color}55` }}>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-bold uppercase tracking-widest" style={{ color: filteredAthlete.color }}>{filteredAthlete.name} · All Time</span>
+                <span className="text-[10px] font-mono text-slate-500">
+                  {athleteStats.sessionCount} sessions · {athleteStats.lapCount} laps
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {[
+                  { label: 'Avg', value: formatTime(athleteStats.average), color: 'text-cyan-400' },
+                  { label: 'PB Lap', value: formatTime(athleteStats.personalBest), color: 'text-emerald-400' },
+                  { label: 'Best Avg', value: formatTime(athleteStats.bestAverage), color: 'text-amber-400' },
+                ].map((item) => (
+                  <div key={item.label} className="flex flex-col">
+                    <span className="text-[9px] font-bold uppercase tracking-widest text-slate-500">{item.label}</span>
+                    <span className={`font-mono tabular-nums text-sm font-bold ${item.color}`}>{item.value}</span>
+                  </div>
+                ))}
+              </div>
+              {filteredAthlete.notes && (
+                <p className="text-[10px] font-mono text-slate-500">{filteredAthlete.notes}</p>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <p className="text-xs font-mono text-rose-400 text-center py-6">{error}</p>
+          )}
+
+          {!error && !isLoading && filteredSessions.length === 0 && (
+            <p className="text-xs font-mono text-slate-500 text-center py-6">
+              {athleteFilter ? 'No sessions for this athlete yet.' : 'No sessions recorded yet.'}
+            </p>
+          )}
+
+          {filteredSessions.map((session) => {
+            const sessionStats = computeSessionStats(session);
+            const isEditing = editingId === session.id;
+            const athlete = athletes.find(a => a.id === session.athleteId);
+
+            return (
+              <div key={session.id} className="bg-slate-800/50 border border-slate-700/50 rounded-2xl p-4 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0 flex-1">
+                    {isEditing ? (
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50"
+                      />
+                    ) : (
+                      <div className="text-sm font-semibold text-slate-100 truncate">{session.name}</div>
+                    )}
+                    <div className="text-[10px] font-mono text-slate-500 mt-1 uppercase tracking-wider">
+                      {new Date(session.startedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                      <span className="mx-1.5 text-slate-700">|</span>
+                      {END_REASON_LABELS[session.endReason]}
+                      {athlete && (
+                        <>
+                          <span className="mx-1.5 text-slate-700">|</span>
+                          <span style={{ color: athlete.color }}>{athlete.name}</span>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-1 flex-none">
+                    {slitScanIds.has(session.id) && (
+                      <button
+                        onClick={() => setStripSession(session)}
+                        className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 rounded-lg transition-colors"
+                        title="Open Slit-Scan Strip"
+                      >
+                        <ScanLine size={16} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onOpenSession(session)}
+                      className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Open Session"
+                    >
+                      <Maximize2 size={16} />
+                    </button>
+                    <button
+                      onMouseDown={(e) => e.preventDefault()} // Keep focus in the name input so blur doesn't commit first
+                      onClick={() => (isEditing ? commitRename() : startRename(session))}
+                      className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-700 rounded-lg transition-colors"
+                      title="Rename Session"
+                    >
+                      {isEditing ? <Check size={16} /> : <Pencil size={16} />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session)}
+                      className="p-2 text-slate-400 hover:text-rose-400 hover:bg-rose-950/30 rounded-lg transition-colors"
+                      title="Delete Session"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-4 gap-2 text-center">
+                  {[
+                    { label: 'Laps', value: sessionStats.count.toString(), color: 'text-slate-300' },
+                    { label: 'Avg', value: formatTime(sessionStats.average), color: 'text-cyan-400' },
+                    { label: 'Fastest', value: formatTime(sessionStats.fastest), color: 'text-emerald-400' },
+                    { label: 'Slowest', value: formatTime(sessionStats.slowest), color: 'text-rose-400' },
+                  ].map((item) => (
+                    <div key={item.label} className="flex flex-col">
+                      <span className="text-[9px] font-bold uppercase tracking-widest text-slate-500">{item.label}</span>
+                      <span className={`font-mono tabular-nums text-sm font-bold ${item.color}`}>{item.value}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <ExportButtons session={session} canShare={canShare} onError={setNotice} />
+                <button
+                  onClick={() => setExpandedId(id => (id === session.id ? null : session.id))}
+                  className="w-full flex items-center justify-between text-[10px] font-mono font-bold uppercase tracking-wide text-slate-500 hover:text-slate-300 transition-colors"
+                >
+                  <span>Laps</span>
+                  <ChevronDown size={14} className={`transition-transform duration-200 ${expandedId === session.id ? 'rotate-180' : ''}`} />
+                </button>
+                {expandedId === session.id && <LapList session={session} onOpenSnapshot={openSnapshot} />}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {viewer && <PhotoFinishViewer lapId={viewer.lapId} title={viewer.title} onClose={() => setViewer(null)} />}
+      {stripSession && <SlitScanViewer session={stripSession} onClose={() => setStripSession(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Lap, LapEdit, LapEditKind, LapEditLog } from '../types';
+import { getCompletedLaps } from '../utils/lapStats';
+import { deleteLap, mergeWithNext, splitLap, insertLap } from '../utils/lapEdits';
+import { Check, ListPlus, Merge, Pencil, RotateCcw, Scissors, Trash2, X } from 'lucide-react';
+
+interface LapEditorProps {
+  laps: Lap[];
+  editLog: LapEditLog | null;
+  onEdit: (edit: LapEdit) => void;
+  onRestore: () => void; // Back to the laps as detected
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) => (ms / 1000).toFixed(2);
+
+const EDIT_LABELS: Record<LapEditKind, string> = {
+  delete: 'Deleted lap',
+  merge: 'Merged laps',
+  insert: 'Added lap',
+  split: 'Split lap',
+};
+
+// Session clock of a mark, m:ss.cc
+const formatSessionTime = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = ((ms % 60000) / 1000).toFixed(2).padStart(5, '0');
+  return `${minutes}:${seconds}`;
+};
+
+// Lap list with corrections for false triggers and missed crossings. Every edit is logged,
+// and the laps as detected can be restored.
+export default function LapEditor({ laps, editLog, onEdit, onRestore, onClose }: LapEditorProps) {
+  // Lap being split, with the first part's time as typed (seconds)
+  const [splitting, setSplitting] = useState<{ lapId: string; value: string } | null>(null);
+  const [missedLap, setMissedLap] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const completed = getCompletedLaps(laps);
+  const average = completed.length > 0 ? completed.reduce((acc, l) => acc + l.duration, 0) / completed.length : 0;
+  const sessionStart = laps[0]?.timestamp ?? 0;
+
+  const apply = (edit: LapEdit | null) => {
+    if (edit) onEdit(edit);
+  };
+
+  const confirmSplit = () => {
+    if (!splitting) return;
+    apply(splitLap(laps, splitting.lapId, parseFloat(splitting.value) * 1000));
+    setSplitting(null);
+  };
+
+  const confirmMissedLap = () => {
+    if (missedLap === null) return;
+    apply(insertLap(laps, parseFloat(missedLap) * 1000));
+    setMissedLap(null);
+  };
+
+  const inputClass = 'w-20 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-center text-cyan-400 font-mono text-sm focus:outline-none focus:border-cyan-500 focus:ring-1 focus:ring-cyan-500/50';
+  const actionClass = 'p-1.5 text-slate-500 hover:text-cyan-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-black animate-in fade-in duration-200">
+      <div className="flex-none flex items-center justify-between px-6 py-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-cyan-400">
+          <Pencil size={20} />
+          <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200">Edit Laps</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onRestore}
+            disabled={!editLog}
+            className="p-2 text-slate-400 hover:text-amber-400 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-30"
+            title="Restore Detected Laps"
+          >
+            <RotateCcw size={18} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto no-scrollbar p-6">
+        <div className="max-w-md mx-auto space-y-1.5">
+          {completed.length === 0 && (
+            <p className="text-xs font-mono text-slate-500 text-center py-2">No laps yet.</p>
+          )}
+
+          {completed.map((lap, i) => {
+            const next = laps[laps.findIndex(l => l.id === lap.id) + 1];
+            return (
+              <div key={lap.id} className="bg-slate-900/60 border border-slate-800 rounded-xl px-3 py-2">
+                <div className="flex items-center gap-3">
+                  <span className="flex-1 text-[10px] font-mono uppercase tracking-wider text-slate-500">
+                    Lap {i + 1}
+                    {lap.source === 'manual' && <span className="ml-2 text-cyan-400/80">manual</span>}
+                    {lap.edited && <span className="ml-2 text-amber-400/80">edited</span>}
+                  </span>
+                  <span className="font-mono tabular-nums text-sm font-bold text-slate-200">{formatTime(lap.duration)}</span>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => setSplitting({ lapId: lap.id, value: formatTime(lap.duration / 2) })}
+                      className={actionClass}
+                      title="Split in Two"
+                    >
+                      <Scissors size={14} />
+                    </button>
+                    <button
+                      onClick={() => apply(mergeWithNext(laps, lap.id))}
+                      disabled={!next || next.duration <= 0}
+                      className={actionClass}
+                      title="Merge with Next Lap"
+                    >
+                      <Merge size={14} />
+                    </button>
+                    <button
+                      onClick={() => apply(deleteLap(laps, lap.id))}
+                      className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-slate-800 rounded-lg transition-colors"
+                      title="Delete (Time Goes to the Next Lap)"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+
+                {splitting?.lapId === lap.id && (
+                  <div className="flex items-center justify-end gap-2 pt-2">
+                    <label className="text-[10px] font-mono text-slate-500">First part (s)</label>
+                    <input
+                      type="number" min="0" step="0.01" autoFocus
+                      value={splitting.value}
+                      onChange={(e) => setSplitting({ lapId: lap.id, value: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && confirmSplit()}
+                      className={inputClass}
+                    />
+                    <button onClick={confirmSplit} className="p-1.5 text-emerald-400 hover:bg-slate-800 rounded-lg" title="Split">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={() => setSplitting(null)} className="p-1.5 text-slate-500 hover:bg-slate-800 rounded-lg" title="Cancel">
+                      <X size={14} />
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {laps.length > 0 && (missedLap === null ? (
+            <button
+              onClick={() => setMissedLap(formatTime(average))}
+              className="w-full flex items-center justify-center gap-2 py-2 border border-dashed border-slate-700 text-slate-500 hover:text-cyan-400 hover:border-cyan-500/40 rounded-xl transition-colors"
+            >
+              <ListPlus size={14} />
+              <span className="text-[10px] font-mono font-bold uppercase tracking-wide">Add Missed Lap</span>
+            </button>
+          ) : (
+            <div className="flex items-center justify-end gap-2 bg-slate-900/60 border border-slate-800 rounded-xl px-3 py-2">
+              <label className="text-[10px] font-mono text-slate-500">Lap time after the last mark (s)</label>
+              <input
+                type="number" min="0" step="0.01" autoFocus
+                value={missedLap}
+                onChange={(e) => setMissedLap(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && confirmMissedLap()}
+                className={inputClass}
+              />
+              <button onClick={confirmMissedLap} className="p-1.5 text-emerald-400 hover:bg-slate-800 rounded-lg" title="Add">
+                <Check size={14} />
+              </button>
+              <button onClick={() => setMissedLap(null)} className="p-1.5 text-slate-500 hover:bg-slate-800 rounded-lg" title="Cancel">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+
+          {editLog && (
+            <div className="pt-4 space-y-1">
+              <h3 className="text-[10px] font-bold uppercase tracking-widest text-slate-500">Edit Log</h3>
+              {editLog.edits.map((edit, i) => (
+                <div key={i} className="flex justify-between text-[10px] font-mono text-slate-400">
+                  <span>{EDIT_LABELS[edit.kind]}</span>
+                  <span className="tabular-nums text-slate-500">mark at {formatSessionTime(edit.timestamp - sessionStart)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
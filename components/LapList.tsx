@@ -0,0 +1,80 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Lap, Session } from '../types';
+import { getCompletedLaps } from '../utils/lapStats';
+import { getSessionThumbnails } from '../services/snapshotStore';
+import { Camera, Hand } from 'lucide-react';
+
+interface LapListProps {
+  session: Session;
+  onOpenSnapshot: (lapId: string, title: string) => void;
+}
+
+interface LapEntry {
+  lap: Lap;
+  label: string;
+}
+
+const formatTime = (ms: number) => (ms / 1000).toFixed(2);
+
+// Completed laps in order, with the photo-finish thumbnail of each crossing when one was kept
+export default function LapList({ session, onOpenSnapshot }: LapListProps) {
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+
+  // Lane sessions list every lane's laps together, labelled with the athlete
+  const entries = useMemo<LapEntry[]>(() => {
+    if (!session.laneLaps) return getCompletedLaps(session.laps).map((lap, i) => ({ lap, label: `Lap ${i + 1}` }));
+    return session.settings.lanes
+      .flatMap(lane => getCompletedLaps(session.laneLaps?.[lane.id] ?? [])
+        .map((lap, i) => ({ lap, label: `${lane.athleteName || 'Lane'} · ${i + 1}` })))
+      .sort((a, b) => a.lap.timestamp - b.lap.timestamp);
+  }, [session]);
+
+  useEffect(() => {
+    let cancelled = false;
+    let urls: Record<string, string> = {};
+    getSessionThumbnails(session.id)
+      .then((thumbnails) => {
+        if (cancelled) return;
+        urls = Object.fromEntries(Object.entries(thumbnails).map(([lapId, blob]) => [lapId, URL.createObjectURL(blob)]));
+        setThumbnailUrls(urls);
+      })
+      .catch((e) => console.warn('Failed to load photo-finish thumbnails:', e));
+    return () => {
+      cancelled = true;
+      Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [session.id, entries.length]);
+
+  if (entries.length === 0) {
+    return <p className="text-[10px] font-mono text-slate-500 text-center py-2">No laps.</p>;
+  }
+
+  return (
+    <div className="space-y-1.5 max-h-64 overflow-y-auto no-scrollbar">
+      {entries.map(({ lap, label }) => {
+        const thumbnail = thumbnailUrls[lap.id];
+        const title = `${label} · ${formatTime(lap.duration)}`;
+        return (
+          <div key={lap.id} className="flex items-center gap-3 bg-slate-900/60 border border-slate-800 rounded-xl px-2 py-1.5">
+            {thumbnail ? (
+              <button
+                onClick={() => onOpenSnapshot(lap.id, title)}
+                className="flex-none w-16 h-9 rounded-md overflow-hidden border border-slate-700 hover:border-cyan-500/50 transition-colors"
+                title="Open Photo Finish"
+              >
+                <img src={thumbnail} alt={title} className="w-full h-full object-cover" />
+              </button>
+            ) : (
+              <div className="flex-none w-16 h-9 rounded-md border border-slate-800 flex items-center justify-center text-slate-700">
+                <Camera size={14} />
+              </div>
+            )}
+            <span className="flex-1 text-[10px] font-mono uppercase tracking-wider text-slate-500 truncate">{label}</span>
+            {lap.source === 'manual' && <Hand size={12} className="flex-none text-slate-500" aria-label="Manual lap" />}
+            <span className="font-mono tabular-nums text-sm font-bold text-slate-200">{formatTime(lap.duration)}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,73 +1,268 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, DetectionZone, CrossingDirection, CapturedSnapshot, CapturedSlitScan, FrameSource, CameraSettings, CameraStatus } from '../types';
+import { FINISH_ZONE_ID, CROSSING_WINDOW_MS, CAPTURE_BLUR_FILTER } from '../constants';
+import { DiffSample } from '../utils/calibration';
+import { createPhotoFinishRecorder, PhotoFinishRecorder } from '../utils/photoFinish';
+import { createSlitScanRecorder, SlitScanRecorder } from '../utils/slitScan';
+import { formatUncertainty } from '../utils/clockSync';
+import { CropRect, DetectionRequest, DetectionResponse, ZoneResult } from '../detectors/types';
+import { FrameSourceControl, openCamera, applyCameraControls, readCameraCapabilities } from '../services/frameSource';
+import { FrameClock, FrameTimestamp, VideoFrameMetadata, clockNow, getCameraFrameTimestamp, estimateTimingUncertainty } from '../utils/frameTiming';
+import { TriggerGate, IDLE_GATE, GateParams, getExitThreshold, stepTriggerGate } from '../utils/triggerGate';
 
 interface MotionEngineProps {
   settings: AppSettings;
   onMotionTriggered: (timestamp: number) => void;
+  onCheckpointTriggered: (index: number, timestamp: number) => void;
+  onLaneTriggered: (laneId: string, timestamp: number) => void;
   isMonitoring: boolean;
   lastActivityTimestamp: number;
+  // While calibrating, frames are analysed without triggering and the start/finish
+  // zone's frame-diff score is streamed to onDiffSample
+  isCalibrating: boolean;
+  onDiffSample: (sample: DiffSample) => void;
+  onSnapshot?: (snapshot: CapturedSnapshot) => void; // Photo-finish frames around a finish or lane crossing
+  onSlitScan?: (scan: CapturedSlitScan) => void; // Slit-scan strip of a monitoring run, delivered when it stops
+  source: FrameSource;
+  controlRef?: React.MutableRefObject<FrameSourceControl | null>;
+  onSourceEnded?: () => void; // A video file played to its end
+  camera: CameraSettings;
+  onCameraReady?: (status: CameraStatus) => void; // The camera was (re)opened
+  onCameraFailed?: () => void; // No camera could be opened
 }
 
-// Inline Worker Code
-const WORKER_CODE = `
-  let prevPixels = null;
+// Score a zone's diff must exceed to count as motion
+const getTriggerThreshold = (settings: AppSettings, result: ZoneResult) =>
+  settings.detectionModel === 'background'
+    ? result.baseline + settings.zScoreThreshold * result.spread
+    : 105 - settings.sensitivity;
 
-  self.onmessage = function(e) {
-    const { type, data, width, height } = e.data;
+// Level the score falls back to when nothing moves, for placing the exit threshold
+const getQuietLevel = (settings: AppSettings, result: ZoneResult) =>
+  settings.detectionModel === 'background' ? result.baseline : 0;
 
-    if (type === 'RESET') {
-      prevPixels = null;
-      return;
-    }
+// Trigger gates of one zone: the whole zone ('any' direction) and each half (line crossing)
+interface ZoneGates {
+  zone: TriggerGate;
+  halves: [TriggerGate, TriggerGate];
+}
 
-    if (type === 'PROCESS') {
-      // Create a view on the transferred buffer
-      const pixels = new Uint8ClampedArray(data);
-      
-      // If dimensions changed or no prev frame, reset
-      if (prevPixels && prevPixels.length !== pixels.length) {
-        prevPixels = null;
-      }
+// Which half saw motion first in the crossing being tracked, and when; or 'settling' after a
+// crossing the wrong way, until both halves are quiet again
+type CrossingState = { firstHalf: 0 | 1; at: number } | 'settling';
+
+const getCrossingAxis = (direction: CrossingDirection) =>
+  direction === 'leftToRight' || direction === 'rightToLeft' ? 'x' : 'y';
+
+// Half in which a crossing in the given direction starts (0 = left/top)
+const getLeadingHalf = (direction: CrossingDirection) =>
+  direction === 'leftToRight' || direction === 'topToBottom' ? 0 : 1;
+
+// Line-crossing state machine for one zone. Confirmed motion in one half arms it; motion in
+// the other half within CROSSING_WINDOW_MS completes a crossing, whose direction is the
+// order the halves fired in. A crossing the wrong way doesn't re-arm it until both halves have
+// gone quiet, or the tail of that motion would arm the next one. Returns the next state and
+// whether a wanted crossing completed.
+const stepCrossing = (
+  state: CrossingState | null,
+  active: [boolean, boolean],
+  quiet: boolean,
+  halves: [number, number],
+  direction: CrossingDirection,
+  now: number
+): { state: CrossingState | null; crossed: boolean } => {
+  if (state === 'settling') return { state: quiet ? null : state, crossed: false };
+  const armed = state && now - state.at > CROSSING_WINDOW_MS ? null : state;
+
+  if (armed) {
+    const otherHalf = armed.firstHalf === 0 ? 1 : 0;
+    if (active[otherHalf]) {
+      const crossed = armed.firstHalf === getLeadingHalf(direction);
+      return { state: crossed ? null : 'settling', crossed };
+    }
+    return { state: armed, crossed: false };
+  }
+
+  if (!active[0] && !active[1]) return { state: null, crossed: false };
+
+  // When both halves fire on the same frame, the one with more change is taken as the entry side
+  const firstHalf = active[0] && active[1] ? (halves[0] >= halves[1] ? 0 : 1) : (active[0] ? 0 : 1);
+  return { state: { firstHalf, at: now }, crossed: false };
+};
+
+type ZoneKind = 'finish' | 'checkpoint' | 'lane';
+
+const ZONE_COLORS: Record<ZoneKind, { shadow: string; stroke: string; fill: string; label: string }> = {
+  finish: { shadow: '#06b6d4', stroke: 'rgba(6, 182, 212, 0.8)', fill: 'rgba(6, 182, 212, 0.05)', label: 'rgba(6, 182, 212, 0.9)' },
+  lane: { shadow: '#10b981', stroke: 'rgba(16, 185, 129, 0.8)', fill: 'rgba(16, 185, 129, 0.05)', label: 'rgba(16, 185, 129, 0.9)' },
+  checkpoint: { shadow: '#f59e0b', stroke: 'rgba(245, 158, 11, 0.8)', fill: 'rgba(245, 158, 11, 0.05)', label: 'rgba(245, 158, 11, 0.9)' },
+};
+
+// In multi-lane mode the first lane stands in for the start/finish zone (debug overlay, calibration)
+const getPrimaryZoneId = (settings: AppSettings) =>
+  settings.laneMode ? settings.lanes[0]?.id : FINISH_ZONE_ID;
+
+// Zones to watch: lanes in multi-lane mode, otherwise start/finish then checkpoints in lap order
+const getZoneRects = (settings: AppSettings, width: number, height: number): ZoneRect[] =>
+  settings.laneMode
+    ? settings.lanes.map((lane, i) => toZoneRect(lane, 'lane', lane.athleteName || `Lane ${i + 1}`, width, height))
+    : [
+      toZoneRect({ id: FINISH_ZONE_ID, x: settings.tripwireX, y: settings.tripwireY, width: settings.detectionWidth, height: settings.detectionHeight }, 'finish', null, width, height),
+      ...settings.checkpoints.map((zone, i) => toZoneRect(zone, 'checkpoint', `CP${i + 1}`, width, height)),
+    ];
+
+interface ZoneRect {
+  id: string;
+  kind: ZoneKind;
+  label: string | null; // Overlay label; null for the start/finish zone
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
 
-      if (!prevPixels) {
-        // Store first frame copy
-        prevPixels = new Uint8ClampedArray(pixels);
-        self.postMessage({ diff: 0 });
-        return;
-      }
+// Converts a percentage zone to whole canvas pixels, clamped inside the frame
+const toZoneRect = (zone: DetectionZone, kind: ZoneKind, label: string | null, width: number, height: number): ZoneRect => {
+  const w = Math.round(Math.max(2, (zone.width / 100) * width));
+  const h = Math.round(Math.max(2, (zone.height / 100) * height));
+  const x = Math.round(Math.max(0, Math.min(width - w, (zone.x / 100) * width - w / 2)));
+  const y = Math.round(Math.max(0, Math.min(height - h, (zone.y / 100) * height - h / 2)));
+  return { id: zone.id, kind, label, x, y, w, h };
+};
+
+// Off-main-thread capture needs a worker-side canvas and a way to hand it frames
+const supportsOffscreenCapture = () =>
+  typeof OffscreenCanvas !== 'undefined' && (typeof VideoFrame !== 'undefined' || typeof createImageBitmap !== 'undefined');
+
+// Per-stage frame costs for the dev overlay, smoothed, in ms
+interface PipelineStages {
+  capture: number; // Main thread: reading the zones (fallback) or wrapping the frame for the worker
+  overlay: number; // Main thread: drawing the zone overlay
+  crop: number; // Worker: drawing, blurring and reading the zones (offscreen pipeline)
+  detect: number; // Worker: running the detectors
+  roundTrip: number; // Frame sent to result received
+}
 
-      let diffScore = 0;
-      let pixelsChecked = 0;
-      // Sampling rate optimization
-      const skip = pixels.length > 50000 ? 16 : 4; 
-
-      for (let i = 0; i < pixels.length; i += skip * 4) {
-        const rDiff = Math.abs(pixels[i] - prevPixels[i]);
-        const gDiff = Math.abs(pixels[i+1] - prevPixels[i+1]);
-        const bDiff = Math.abs(pixels[i+2] - prevPixels[i+2]);
-        
-        diffScore += (rDiff + gDiff + bDiff);
-        pixelsChecked++;
+const smoothStage = (previous: number, sample: number) => (previous ? previous * 0.9 + sample * 0.1 : sample);
+
+// Slit-scan samples the centre line of the start/finish zone: a column, or a row when
+// runners cross vertically
+const getSlitLine = (finish: ZoneRect, direction: CrossingDirection): Omit<CropRect, 'id'> =>
+  direction === 'topToBottom' || direction === 'bottomToTop'
+    ? { x: finish.x, y: finish.y + Math.floor(finish.h / 2), w: finish.w, h: 1 }
+    : { x: finish.x + Math.floor(finish.w / 2), y: finish.y, w: 1, h: finish.h };
+
+// Zone boxes, crossing arrows and the trigger flash. Cooldowns are read from lastTrigger directly,
+// for immediate feedback while the worker is still processing.
+const drawZoneOverlay = (
+  ctx: CanvasRenderingContext2D,
+  zones: ZoneRect[],
+  settings: AppSettings,
+  now: number,
+  lastTrigger: Record<string, number>,
+  isMonitoring: boolean
+) => {
+  zones.forEach(({ id, kind, label, x, y, w, h }) => {
+    const zoneOnCooldown = now - (lastTrigger[id] ?? 0) < settings.cooldown;
+    const colors = ZONE_COLORS[kind];
+
+    ctx.shadowBlur = 10;
+    ctx.shadowColor = zoneOnCooldown ? '#f43f5e' : colors.shadow;
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = zoneOnCooldown ? 'rgba(244, 63, 94, 0.8)' : colors.stroke;
+    ctx.fillStyle = zoneOnCooldown ? 'rgba(244, 63, 94, 0.1)' : colors.fill;
+
+    ctx.strokeRect(x, y, w, h);
+    ctx.fillRect(x, y, w, h);
+    ctx.shadowBlur = 0;
+
+    // Line-crossing mode: dashed split line plus an arrow in the counted direction
+    if (settings.crossingDirection !== 'any') {
+      const cx = x + w / 2;
+      const cy = y + h / 2;
+      const horizontal = getCrossingAxis(settings.crossingDirection) === 'x';
+      const sign = getLeadingHalf(settings.crossingDirection) === 0 ? 1 : -1;
+      const arrowLen = Math.min(w, h) * 0.3;
+
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      if (horizontal) {
+        ctx.moveTo(cx, y);
+        ctx.lineTo(cx, y + h);
+      } else {
+        ctx.moveTo(x, cy);
+        ctx.lineTo(x + w, cy);
       }
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      const [dx, dy] = horizontal ? [sign, 0] : [0, sign];
+      const tipX = cx + dx * arrowLen;
+      const tipY = cy + dy * arrowLen;
+      ctx.beginPath();
+      ctx.moveTo(cx - dx * arrowLen, cy - dy * arrowLen);
+      ctx.lineTo(tipX, tipY);
+      ctx.moveTo(tipX, tipY);
+      ctx.lineTo(tipX - dx * 6 - dy * 5, tipY - dy * 6 - dx * 5);
+      ctx.moveTo(tipX, tipY);
+      ctx.lineTo(tipX - dx * 6 + dy * 5, tipY - dy * 6 + dx * 5);
+      ctx.stroke();
+    }
 
-      const normalizedDiff = pixelsChecked > 0 ? diffScore / pixelsChecked : 0;
-      
-      // Update previous frame with current frame data
-      prevPixels.set(pixels);
-      
-      self.postMessage({ diff: normalizedDiff });
+    if (label) {
+      ctx.font = 'bold 12px ui-monospace, monospace';
+      ctx.fillStyle = colors.label;
+      ctx.fillText(label, x + 4, y + 14);
     }
-  };
-`;
+  });
 
-export default function MotionEngine({ settings, onMotionTriggered, isMonitoring, lastActivityTimestamp }: MotionEngineProps) {
+  // Visual Flash if the start/finish zone triggered recently (lanes only tint their own zone)
+  const onCooldown = !settings.laneMode && now - (lastTrigger[FINISH_ZONE_ID] ?? 0) < settings.cooldown;
+  if (onCooldown && isMonitoring) {
+    ctx.fillStyle = 'rgba(6, 182, 212, 0.3)';
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+};
+
+export default function MotionEngine({ settings, onMotionTriggered, onCheckpointTriggered, onLaneTriggered, isMonitoring, lastActivityTimestamp, isCalibrating, onDiffSample, onSnapshot, onSlitScan, source, controlRef, onSourceEnded, camera, onCameraReady, onCameraFailed }: MotionEngineProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  // File sources: wall-clock time at media time 0, so frame timestamps are base + media time
+  const mediaBaseRef = useRef<number>(clockNow());
+  const onSourceEndedRef = useRef(onSourceEnded);
+  onSourceEndedRef.current = onSourceEnded;
+  const cameraRef = useRef(camera);
+  cameraRef.current = camera;
+  const onCameraReadyRef = useRef(onCameraReady);
+  onCameraReadyRef.current = onCameraReady;
+  const onCameraFailedRef = useRef(onCameraFailed);
+  onCameraFailedRef.current = onCameraFailed;
   const workerRef = useRef<Worker | null>(null);
-
-  // Logic Refs
-  const lastTriggerRef = useRef<number>(0);
+  // Offscreen pipeline: frames sent and not yet answered (with their send times), so a busy
+  // worker drops frames instead of queueing them
+  const sentAtRef = useRef<number[]>([]);
+  const [offscreenUnsupported, setOffscreenUnsupported] = useState(false);
+  const useOffscreen = settings.offscreenCapture && supportsOffscreenCapture() && !offscreenUnsupported;
+  const stagesRef = useRef<PipelineStages>({ capture: 0, overlay: 0, crop: 0, detect: 0, roundTrip: 0 });
+
+  // Logic Refs - last trigger time per zone id, each zone has its own cooldown
+  const lastTriggerRef = useRef<Record<string, number>>({});
+  const crossingStateRef = useRef<Record<string, CrossingState | null>>({});
+  const gatesRef = useRef<Record<string, ZoneGates>>({});
+  // Smoothed interval between analysed frames, in ms
+  const frameIntervalRef = useRef<number>(0);
+  const lastFrameTimeRef = useRef<number | null>(null);
+
+  // Photo-finish ring buffer; the callback is read through a ref so the render loop doesn't restart
+  const photoFinishRef = useRef<PhotoFinishRecorder | null>(null);
+  const onSnapshotRef = useRef(onSnapshot);
+  onSnapshotRef.current = onSnapshot;
+  const slitScanRef = useRef<SlitScanRecorder | null>(null);
+  const onSlitScanRef = useRef(onSlitScan);
+  onSlitScanRef.current = onSlitScan;
 
   // FPS Counting Refs
   const lastFpsTimeRef = useRef<number>(0);
@@ -75,12 +270,14 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
   const [fps, setFps] = useState<number>(0);
 
   const [error, setError] = useState<string | null>(null);
-  const [debugDiff, setDebugDiff] = useState(0);
+  const [debugInfo, setDebugInfo] = useState({ diff: 0, baseline: 0, spread: 0, threshold: 0 });
+  const [timingInfo, setTimingInfo] = useState<{ clock: FrameClock; interval: number; latency: number; uncertainty: number; lastShift: number | null; stages: PipelineStages }>({
+    clock: 'wall', interval: 0, latency: 0, uncertainty: 0, lastShift: null, stages: stagesRef.current,
+  });
 
   // Initialize Worker
   useEffect(() => {
-    const blob = new Blob([WORKER_CODE], { type: 'application/javascript' });
-    const worker = new Worker(URL.createObjectURL(blob));
+    const worker = new Worker(new URL('../detectors/detection.worker.ts', import.meta.url), { type: 'module' });
     workerRef.current = worker;
 
     return () => {
@@ -88,93 +285,296 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
     };
   }, []);
 
+  useEffect(() => {
+    photoFinishRef.current = createPhotoFinishRecorder(snapshot => onSnapshotRef.current?.(snapshot));
+    const slitScan = createSlitScanRecorder(scan => onSlitScanRef.current?.(scan));
+    slitScanRef.current = slitScan;
+    return () => {
+      photoFinishRef.current = null;
+      slitScanRef.current = null;
+      slitScan.flush();
+    };
+  }, []);
+
   // Worker Message Handler - Handles the RESULT of the calculation
   useEffect(() => {
     const worker = workerRef.current;
     if (!worker) return;
 
-    const handleMessage = (e: MessageEvent) => {
-      const { diff } = e.data;
-      setDebugDiff(diff);
+    const handleMessage = (e: MessageEvent<DetectionResponse>) => {
+      if (e.data.type === 'UNSUPPORTED') {
+        // The worker can't crop frames; fall back to cropping on the main thread
+        sentAtRef.current = [];
+        setOffscreenUnsupported(true);
+        return;
+      }
+      const { results, timings, line } = e.data;
+      const stages = stagesRef.current;
+      const sentAt = sentAtRef.current.shift();
+      if (sentAt !== undefined) stages.roundTrip = smoothStage(stages.roundTrip, performance.now() - sentAt);
+      stages.crop = smoothStage(stages.crop, timings.crop);
+      stages.detect = smoothStage(stages.detect, timings.detect);
+
+      const primaryZoneId = getPrimaryZoneId(settings);
+      const primary = primaryZoneId ? results[primaryZoneId] : undefined;
+      if (primary) {
+        setDebugInfo({ diff: primary.diff, baseline: primary.baseline, spread: primary.spread, threshold: getTriggerThreshold(settings, primary) });
+      }
+
+      const now = e.data.frameTime;
+      const clock = e.data.frameClock;
+
+      // Slit-scan line read by the worker (offscreen pipeline only)
+      if (line && isMonitoring) slitScanRef.current?.push(new Uint8ClampedArray(line), now);
+
+      // Frame interval, skipping the gap across a stop and restart
+      const lastFrameTime = lastFrameTimeRef.current;
+      if (lastFrameTime !== null && now > lastFrameTime && now - lastFrameTime < 1000) {
+        const interval = now - lastFrameTime;
+        frameIntervalRef.current = frameIntervalRef.current ? frameIntervalRef.current * 0.9 + interval * 0.1 : interval;
+      }
+      lastFrameTimeRef.current = now;
+      const frameInterval = frameIntervalRef.current;
+      let lastShift: number | null = null;
+
+      if (isCalibrating && primary) {
+        onDiffSample({ diff: primary.diff, timestamp: now });
+      }
+
+      const { trigger } = settings;
+      // Sub-frame timing: motion is dated to where, between the previous frame and the first
+      // one in motion, the score passed the threshold
+      const gateParams: GateParams = {
+        minFrames: trigger.minFrames,
+        minChangedArea: trigger.minChangedArea,
+        interpolateWithin: settings.subFrameTiming && frameInterval > 0 ? frameInterval * 3 : 0,
+      };
+
+      Object.entries(results).forEach(([zoneId, result]) => {
+        const { diff, halves, changed, changedHalves } = result;
+        const threshold = getTriggerThreshold(settings, result);
+        const thresholds = { enter: threshold, exit: getExitThreshold(threshold, getQuietLevel(settings, result), trigger.exitRatio) };
+
+        // Gates follow the scores on every frame, cooldown included, so motion that is
+        // still going on when the cooldown ends isn't counted a second time
+        const gates = gatesRef.current[zoneId] ?? { zone: IDLE_GATE, halves: [IDLE_GATE, IDLE_GATE] };
+        const zoneStep = stepTriggerGate(gates.zone, { value: diff, changed, time: now }, thresholds, gateParams);
+        const halfSteps = [0, 1].map(i =>
+          stepTriggerGate(gates.halves[i], { value: halves[i], changed: changedHalves[i], time: now }, thresholds, gateParams));
+        gatesRef.current[zoneId] = { zone: zoneStep.gate, halves: [halfSteps[0].gate, halfSteps[1].gate] };
+
+        const pending = crossingStateRef.current[zoneId] ?? null;
+        const onCooldown = now - (lastTriggerRef.current[zoneId] ?? 0) < settings.cooldown;
+        const warmingUp = settings.detectionModel === 'background' && !result.ready;
+        if (onCooldown || warmingUp || !isMonitoring) {
+          crossingStateRef.current[zoneId] = null;
+          return;
+        }
 
-      const now = Date.now();
-      const onCooldown = now - lastTriggerRef.current < settings.cooldown;
-      const threshold = 105 - settings.sensitivity;
+        // The trigger is dated to the start of the deciding motion: the whole zone's, or that
+        // of the half that completed the crossing
+        let triggeredAt: number;
+        if (settings.crossingDirection === 'any') {
+          if (!zoneStep.confirmed) return;
+          triggeredAt = zoneStep.gate.since;
+        } else {
+          const active: [boolean, boolean] = [halfSteps[0].gate.frames >= trigger.minFrames, halfSteps[1].gate.frames >= trigger.minFrames];
+          const quiet = halfSteps.every(s => s.gate.frames === 0);
+          const step = stepCrossing(pending, active, quiet, halves, settings.crossingDirection, now);
+          crossingStateRef.current[zoneId] = step.state;
+          if (!step.crossed || !pending || pending === 'settling') return;
+          triggeredAt = halfSteps[pending.firstHalf === 0 ? 1 : 0].gate.since;
+        }
+        lastShift = triggeredAt - now;
+
+        lastTriggerRef.current[zoneId] = now;
+        if (settings.laneMode) {
+          if (settings.lanes.some(l => l.id === zoneId)) {
+            if (settings.photoFinish) photoFinishRef.current?.trigger(triggeredAt);
+            onLaneTriggered(zoneId, triggeredAt);
+          }
+        } else if (zoneId === FINISH_ZONE_ID) {
+          if (settings.photoFinish) photoFinishRef.current?.trigger(triggeredAt);
+          onMotionTriggered(triggeredAt);
+        } else {
+          const index = settings.checkpoints.findIndex(z => z.id === zoneId);
+          if (index !== -1) onCheckpointTriggered(index, triggeredAt);
+        }
+      });
 
-      if (diff > threshold && !onCooldown && isMonitoring) {
-        lastTriggerRef.current = now;
-        onMotionTriggered(now);
+      if (settings.devMode) {
+        setTimingInfo(prev => ({
+          clock,
+          interval: frameInterval,
+          // Media time runs at the playback speed, so it says nothing about processing delay
+          latency: clock === 'media' ? 0 : clockNow() - now,
+          uncertainty: estimateTimingUncertainty(frameInterval, clock, settings.subFrameTiming && clock !== 'wall'),
+          lastShift: lastShift ?? prev.lastShift,
+          stages: { ...stages },
+        }));
       }
     };
 
     worker.onmessage = handleMessage;
 
     // Reset worker state when monitoring stops/starts to avoid diffing against old frames
-    if (!isMonitoring) {
-      worker.postMessage({ type: 'RESET' });
+    if (!isMonitoring && !isCalibrating) {
+      worker.postMessage({ type: 'RESET' } satisfies DetectionRequest);
+      crossingStateRef.current = {};
+      gatesRef.current = {};
+      lastFrameTimeRef.current = null;
+      photoFinishRef.current?.clear();
+      slitScanRef.current?.flush();
     }
 
     return () => {
       worker.onmessage = null;
     };
-  }, [isMonitoring, settings.sensitivity, settings.cooldown, onMotionTriggered]);
+  }, [isMonitoring, isCalibrating, settings, onMotionTriggered, onCheckpointTriggered, onLaneTriggered, onDiffSample]);
 
-  // Initialize Camera
+  // Attach the frame source: the live camera, or a video file paused on its first frame
   useEffect(() => {
-    async function setupCamera() {
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({
-          video: {
-            width: { ideal: 640 },
-            height: { ideal: 360 },
-            frameRate: { ideal: 60 },
-            facingMode: 'environment'
-          },
-          audio: false
-        });
-
-        streamRef.current = stream;
-
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-          videoRef.current.onloadedmetadata = () => {
-            videoRef.current?.play().catch(e => console.error("Play error:", e));
+    const video = videoRef.current;
+    if (!video) return;
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    if (source.kind === 'camera') {
+      openCamera(cameraRef.current)
+        .then(async (stream) => {
+          if (cancelled) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+          }
+          streamRef.current = stream;
+          video.srcObject = stream;
+          video.onloadedmetadata = () => {
+            video.play().catch(e => console.error("Play error:", e));
           };
-        }
-        setError(null);
-      } catch (err) {
-        console.error("Error accessing camera:", err);
-        setError("Camera access denied or unavailable.");
-      }
+          setError(null);
+
+          const [track] = stream.getVideoTracks();
+          await applyCameraControls(track, cameraRef.current);
+          const actual = track.getSettings();
+          onCameraReadyRef.current?.({
+            deviceId: actual.deviceId ?? null,
+            width: actual.width ?? 0,
+            height: actual.height ?? 0,
+            frameRate: actual.frameRate ?? 0,
+            capabilities: readCameraCapabilities(track),
+          });
+        })
+        .catch((err) => {
+          console.error("Error accessing camera:", err);
+          setError("Camera access denied or unavailable.");
+          onCameraFailedRef.current?.();
+        });
+    } else {
+      objectUrl = URL.createObjectURL(source.file);
+      video.onloadedmetadata = null;
+      video.srcObject = null;
+      video.src = objectUrl;
+      mediaBaseRef.current = clockNow();
+      setError(null);
     }
 
-    setupCamera();
+    const handleEnded = () => onSourceEndedRef.current?.();
+    video.addEventListener('ended', handleEnded);
 
     return () => {
+      cancelled = true;
+      video.removeEventListener('ended', handleEnded);
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+      }
+      if (objectUrl) {
+        video.pause();
+        video.removeAttribute('src');
+        video.load();
+        URL.revokeObjectURL(objectUrl);
       }
     };
-  }, []);
+    // A different device, resolution or frame rate needs a new stream
+  }, [source, camera.deviceId, camera.width, camera.height, camera.frameRate]);
+
+  // Locks and the torch apply to the running camera
+  useEffect(() => {
+    const track = streamRef.current?.getVideoTracks()[0];
+    if (track) applyCameraControls(track, camera);
+  }, [camera.lockExposure, camera.lockFocus, camera.lockWhiteBalance, camera.torch]);
+
+  useEffect(() => {
+    if (!controlRef) return;
+    const isFile = source.kind === 'file';
+    controlRef.current = {
+      video: videoRef.current,
+      get stream() { return streamRef.current; },
+      now: () => (isFile && videoRef.current ? mediaBaseRef.current + videoRef.current.currentTime * 1000 : clockNow()),
+      rewind: () => {
+        const video = videoRef.current;
+        if (!isFile || !video) return;
+        video.currentTime = 0;
+        mediaBaseRef.current = clockNow();
+        video.play().catch(e => console.error("Play error:", e));
+      },
+    };
+    return () => {
+      controlRef.current = null;
+    };
+  }, [controlRef, source]);
 
-  // Rendering & Capture Loop
+  // Rendering & Capture Loop. The main-thread path draws each frame to the visible canvas and
+  // reads the zones back from it. The offscreen path shows the video element itself, draws only
+  // the overlay, and hands the frame to the worker, which crops, blurs and diffs it there.
   useEffect(() => {
     let rafId: number | null = null;
     let rvfcId: number | null = null;
 
-    const processFrame = () => {
-      const now = Date.now();
+    const isFile = source.kind === 'file';
+    const stages = stagesRef.current;
+    let bitmapPending = false;
+
+    const sendFrame = (frame: VideoFrame | ImageBitmap, width: number, height: number, zones: ZoneRect[], line: Omit<CropRect, 'id'> | null, timestamp: FrameTimestamp) => {
+      const worker = workerRef.current;
+      if (!worker) {
+        frame.close();
+        return;
+      }
+      const request: DetectionRequest = {
+        type: 'PROCESS_FRAME',
+        frame,
+        width,
+        height,
+        zones: zones.map(({ id, x, y, w, h }) => ({ id, x, y, w, h })),
+        line,
+        detector: settings.detector,
+        config: {
+          axis: getCrossingAxis(settings.crossingDirection),
+          model: isCalibrating ? 'frameDiff' : settings.detectionModel,
+          zThreshold: settings.zScoreThreshold,
+          pixelThreshold: settings.trigger.pixelThreshold,
+        },
+        frameTime: timestamp.time,
+        frameClock: timestamp.clock,
+      };
+      sentAtRef.current.push(performance.now());
+      worker.postMessage(request, [frame]);
+    };
+
+    const processFrame = (_time?: number, metadata?: VideoFrameMetadata) => {
+      const callbackNow = clockNow();
 
       // Calculate FPS
       frameCountRef.current++;
-      if (now - lastFpsTimeRef.current >= 1000) {
+      if (callbackNow - lastFpsTimeRef.current >= 1000) {
         setFps(frameCountRef.current);
         frameCountRef.current = 0;
-        lastFpsTimeRef.current = now;
+        lastFpsTimeRef.current = callbackNow;
       }
 
       const video = videoRef.current;
-      const canvas = canvasRef.current;
+      const canvas = useOffscreen ? overlayRef.current : canvasRef.current;
 
       // Safety Check
       if (!video || !canvas || video.readyState < 2) {
@@ -182,12 +582,21 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
         return;
       }
 
+      // Files are timed by media time, so detection sees the clip's own clock at any speed;
+      // camera frames by when they were captured
+      const frame: FrameTimestamp = isFile
+        ? { time: mediaBaseRef.current + (metadata?.mediaTime ?? video.currentTime) * 1000, clock: 'media' }
+        : getCameraFrameTimestamp(metadata, callbackNow);
+      const now = frame.time;
+      // A paused or seeking file keeps redrawing the same frame; that is not new footage
+      const isFrozen = isFile && (video.paused || video.seeking);
+
       if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
         canvas.width = video.videoWidth;
         canvas.height = video.videoHeight;
       }
 
-      const ctx = canvas.getContext('2d', {
+      const ctx = canvas.getContext('2d', useOffscreen ? undefined : {
         willReadFrequently: true,
         alpha: false
       });
@@ -197,61 +606,100 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
         return;
       }
 
-      // 1. Draw the current frame
-      ctx.filter = 'none';
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
       // Calculate geometry
-      const centerX = (settings.tripwireX / 100) * canvas.width;
-      const centerY = (settings.tripwireY / 100) * canvas.height;
-      const zoneW = Math.max(2, (settings.detectionWidth / 100) * canvas.width);
-      const zoneH = Math.max(2, (settings.detectionHeight / 100) * canvas.height);
-
-      const sampleX = Math.max(0, Math.min(canvas.width - zoneW, centerX - zoneW / 2));
-      const sampleY = Math.max(0, Math.min(canvas.height - zoneH, centerY - zoneH / 2));
-
-      // 2. Monitoring visual effect (blur)
-      if (isMonitoring) {
-        ctx.filter = 'blur(4px)';
-        ctx.drawImage(video, sampleX, sampleY, zoneW, zoneH, sampleX, sampleY, zoneW, zoneH);
-        ctx.filter = 'none';
-      }
+      const zones = getZoneRects(settings, canvas.width, canvas.height);
+      // Calibration must see the same (blurred) pixels as monitoring to measure comparable scores
+      const isCapturing = (isMonitoring || isCalibrating) && !isFrozen;
+      const captureStart = performance.now();
+
+      if (useOffscreen) {
+        // Photo-finish copies the frame straight from the video; nothing is read back here
+        if (isMonitoring && settings.photoFinish && !isFrozen) {
+          photoFinishRef.current?.push(video, canvas.width, canvas.height, now);
+        }
 
-      // 3. CAPTURE & SEND TO WORKER
-      if (isMonitoring && workerRef.current) {
-        const imageData = ctx.getImageData(sampleX, sampleY, zoneW, zoneH);
-        // We transfer the buffer to the worker (zero-copy)
-        workerRef.current.postMessage({
-          type: 'PROCESS',
-          data: imageData.data.buffer,
-          width: zoneW,
-          height: zoneH
-        }, [imageData.data.buffer]);
-      }
+        // At most two frames in the worker at once; later ones are skipped until it catches up
+        if (isCapturing && sentAtRef.current.length < 2) {
+          const finish = zones.find(z => z.id === FINISH_ZONE_ID);
+          const line = isMonitoring && settings.slitScan && !settings.laneMode && finish ? getSlitLine(finish, settings.crossingDirection) : null;
+          const { width, height } = canvas;
+          // Frames are wrapped from the video element rather than read from the camera track
+          // with MediaStreamTrackProcessor, so camera and file sources share one frame loop
+          // and the frame sent is the one its timestamp and the overlay belong to
+          if (typeof VideoFrame !== 'undefined') {
+            sendFrame(new VideoFrame(video, { timestamp: Math.round(now * 1000) }), width, height, zones, line, frame);
+          } else if (!bitmapPending) {
+            // One bitmap at a time; it is only counted as sent once it exists
+            bitmapPending = true;
+            createImageBitmap(video)
+              .then(bitmap => sendFrame(bitmap, width, height, zones, line, frame))
+              .catch(e => console.warn('Frame capture failed:', e))
+              .finally(() => { bitmapPending = false; });
+          }
+          stages.capture = smoothStage(stages.capture, performance.now() - captureStart);
+        }
 
-      // 4. Draw Zone Overlay Box
-      // We check lastTriggerRef directly for immediate UI feedback even if the worker is processing asynchronously
-      const onCooldown = now - lastTriggerRef.current < settings.cooldown;
+        const overlayStart = performance.now();
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        drawZoneOverlay(ctx, zones, settings, now, lastTriggerRef.current, isMonitoring);
+        stages.overlay = smoothStage(stages.overlay, performance.now() - overlayStart);
+      } else {
+        // 1. Draw the current frame
+        ctx.filter = 'none';
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
 
-      ctx.shadowBlur = 10;
-      ctx.shadowColor = onCooldown ? '#f43f5e' : '#06b6d4';
+        // Photo-finish keeps the clean frame, before blur and overlays are drawn on top
+        if (isMonitoring && settings.photoFinish && !isFrozen) {
+          photoFinishRef.current?.push(canvas, canvas.width, canvas.height, now);
+        }
 
-      ctx.lineWidth = 2;
-      ctx.strokeStyle = onCooldown ? 'rgba(244, 63, 94, 0.8)' : 'rgba(6, 182, 212, 0.8)';
-      ctx.fillStyle = onCooldown ? 'rgba(244, 63, 94, 0.1)' : 'rgba(6, 182, 212, 0.05)';
+        // Slit-scan samples the unblurred centre line of the start/finish zone
+        if (isMonitoring && settings.slitScan && !settings.laneMode && !isFrozen) {
+          const finish = zones.find(z => z.id === FINISH_ZONE_ID);
+          if (finish && finish.w > 0 && finish.h > 0) {
+            const line = getSlitLine(finish, settings.crossingDirection);
+            slitScanRef.current?.push(ctx.getImageData(line.x, line.y, line.w, line.h).data, now);
+          }
+        }
+
+        // 2. Monitoring visual effect (blur)
+        if (isCapturing) {
+          ctx.filter = CAPTURE_BLUR_FILTER;
+          zones.forEach(({ x, y, w, h }) => ctx.drawImage(video, x, y, w, h, x, y, w, h));
+          ctx.filter = 'none';
+        }
 
-      ctx.strokeRect(sampleX, sampleY, zoneW, zoneH);
-      ctx.fillRect(sampleX, sampleY, zoneW, zoneH);
-      ctx.shadowBlur = 0;
+        // 3. CAPTURE & SEND TO WORKER
+        if (isCapturing && workerRef.current) {
+          const payload = zones.map(({ id, x, y, w, h }) => ({ id, width: w, data: ctx.getImageData(x, y, w, h).data.buffer }));
+          const request: DetectionRequest = {
+            type: 'PROCESS',
+            zones: payload,
+            detector: settings.detector,
+            config: {
+              axis: getCrossingAxis(settings.crossingDirection),
+              // Sensitivity is defined on frame-diff scores, so calibration always measures those
+              model: isCalibrating ? 'frameDiff' : settings.detectionModel,
+              zThreshold: settings.zScoreThreshold,
+              pixelThreshold: settings.trigger.pixelThreshold,
+            },
+            frameTime: frame.time,
+            frameClock: frame.clock
+          };
+          // We transfer the buffers to the worker (zero-copy)
+          sentAtRef.current.push(performance.now());
+          workerRef.current.postMessage(request, payload.map(z => z.data));
+          stages.capture = smoothStage(stages.capture, performance.now() - captureStart);
+        }
 
-      // Visual Flash if triggered recently
-      if (onCooldown && isMonitoring) {
-        ctx.fillStyle = 'rgba(6, 182, 212, 0.3)';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        // 4. Draw Zone Overlay Boxes
+        const overlayStart = performance.now();
+        drawZoneOverlay(ctx, zones, settings, now, lastTriggerRef.current, isMonitoring);
+        stages.overlay = smoothStage(stages.overlay, performance.now() - overlayStart);
       }
 
-      // Schedule next frame
-      if ('requestVideoFrameCallback' in video) {
+      // Schedule next frame (a paused file delivers no new frames, so the overlay is redrawn per animation frame)
+      if ('requestVideoFrameCallback' in video && !video.paused) {
         rvfcId = (video as any).requestVideoFrameCallback(processFrame);
       } else {
         rafId = requestAnimationFrame(processFrame);
@@ -267,7 +715,7 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
         (videoRef.current as any).cancelVideoFrameCallback(rvfcId);
       }
     };
-  }, [settings, isMonitoring]); // Removed onMotionTriggered from dep array to avoid re-binding loop
+  }, [settings, isMonitoring, isCalibrating, source, useOffscreen]); // Removed onMotionTriggered from dep array to avoid re-binding loop
 
   return (
     <div
@@ -280,13 +728,24 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
         </div>
       )}
 
-      <video ref={videoRef} className="hidden" playsInline muted />
-
-      <canvas
-        ref={canvasRef}
-        className="w-full h-full object-cover"
-        style={{ transform: 'translate3d(0,0,0)' }}
-      />
+      {/* The offscreen pipeline shows the video itself under a transparent overlay canvas */}
+      <video ref={videoRef} className={useOffscreen ? 'absolute inset-0 w-full h-full object-cover' : 'hidden'} playsInline muted />
+
+      {useOffscreen ? (
+        <canvas
+          key="overlay"
+          ref={overlayRef}
+          className="absolute inset-0 w-full h-full object-cover"
+          style={{ transform: 'translate3d(0,0,0)' }}
+        />
+      ) : (
+        <canvas
+          key="frame"
+          ref={canvasRef}
+          className="w-full h-full object-cover"
+          style={{ transform: 'translate3d(0,0,0)' }}
+        />
+      )}
 
       {/* Debug Info Overlay - Conditional on devMode */}
       {settings.devMode && (
@@ -295,7 +754,17 @@ export default function MotionEngine({ settings, onMotionTriggered, isMonitoring
             FPS: {fps}
           </div>
           <div className="text-[10px] text-cyan-400/50 font-mono bg-slate-950/50 px-2 py-1 rounded">
-            DIFF: {debugDiff.toFixed(2)} | STATE: {isMonitoring ? 'RUNNING' : 'STOPPED'}
+            DIFF: {debugInfo.diff.toFixed(2)} | STATE: {isMonitoring ? 'RUNNING' : 'STOPPED'}
+          </div>
+          <div className="text-[10px] text-cyan-400/50 font-mono bg-slate-950/50 px-2 py-1 rounded">
+            BASE: {debugInfo.baseline.toFixed(2)} ± {debugInfo.spread.toFixed(2)} | THR: {debugInfo.threshold.toFixed(2)} ({settings.detectionModel === 'background' ? `z>${settings.zScoreThreshold}` : 'FIXED'})
+          </div>
+          <div className="text-[10px] text-cyan-400/50 font-mono bg-slate-950/50 px-2 py-1 rounded">
+            CLOCK: {timingInfo.clock.toUpperCase()} | FRAME: {timingInfo.interval.toFixed(1)}ms{timingInfo.clock !== 'media' && ` | LAT: ${Math.round(timingInfo.latency)}ms`} | {formatUncertainty(timingInfo.uncertainty)}
+            {timingInfo.lastShift !== null && ` | LAST: ${timingInfo.lastShift.toFixed(1)}ms`}
+          </div>
+          <div className="text-[10px] text-cyan-400/50 font-mono bg-slate-950/50 px-2 py-1 rounded">
+            PIPE: {useOffscreen ? 'WORKER' : 'MAIN'} | CAP {timingInfo.stages.capture.toFixed(1)} | {useOffscreen && `CROP ${timingInfo.stages.crop.toFixed(1)} | `}DET {timingInfo.stages.detect.toFixed(1)} | DRAW {timingInfo.stages.overlay.toFixed(1)} | RTT {timingInfo.stages.roundTrip.toFixed(1)} ms
           </div>
         </div>
       )}
@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LapSnapshot } from '../types';
+import { getLapSnapshot } from '../services/snapshotStore';
+import { Camera, ChevronLeft, ChevronRight, X } from 'lucide-react';
+
+interface PhotoFinishViewerProps {
+  lapId: string;
+  title: string;
+  onClose: () => void;
+}
+
+// Full-screen frame-by-frame view of the frames around a crossing
+export default function PhotoFinishViewer({ lapId, title, onClose }: PhotoFinishViewerProps) {
+  const [snapshot, setSnapshot] = useState<LapSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getLapSnapshot(lapId)
+      .then((found) => {
+        if (cancelled) return;
+        if (!found) {
+          setError('No photo-finish frames for this lap.');
+          return;
+        }
+        setSnapshot(found);
+        setIndex(found.triggerIndex);
+      })
+      .catch((e) => {
+        console.error('Failed to load photo-finish snapshot:', e);
+        if (!cancelled) setError('Photo-finish frames are unavailable.');
+      });
+    return () => { cancelled = true; };
+  }, [lapId]);
+
+  const urls = useMemo(() => snapshot?.frames.map(f => URL.createObjectURL(f.image)) ?? [], [snapshot]);
+  useEffect(() => () => urls.forEach(url => URL.revokeObjectURL(url)), [urls]);
+
+  const frameCount = urls.length;
+  const step = (delta: number) => setIndex(i => Math.max(0, Math.min(frameCount - 1, i + delta)));
+
+  useEffect(() => {
+    // Captured first, so the arrow keys step frames here rather than reaching the lap shortcuts
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      e.stopPropagation();
+      step(e.key === 'ArrowLeft' ? -1 : 1);
+    };
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  });
+
+  const frame = snapshot?.frames[index];
+  const trigger = snapshot?.frames[snapshot.triggerIndex];
+  const offset = snapshot ? index - snapshot.triggerIndex : 0;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-black animate-in fade-in duration-200">
+      <div className="flex-none flex items-center justify-between px-6 py-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-cyan-400">
+          <Camera size={20} />
+          <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200">{title}</h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+        >
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex items-center justify-center p-4">
+        {error && <p className="text-xs font-mono text-slate-500">{error}</p>}
+        {frame && (
+          <img
+            src={urls[index]}
+            alt={`Frame ${index + 1} of ${frameCount}`}
+            className={`max-w-full max-h-full object-contain rounded-lg border-2 ${offset === 0 ? 'border-cyan-400' : 'border-transparent'}`}
+          />
+        )}
+      </div>
+
+      {frame && trigger && (
+        <div className="flex-none flex items-center justify-center gap-6 px-6 py-4 border-t border-slate-800">
+          <button
+            onClick={() => step(-1)}
+            disabled={index === 0}
+            className="p-3 bg-slate-800 text-slate-300 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-full transition-all active:scale-95 disabled:opacity-30"
+            title="Previous Frame"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <div className="flex flex-col items-center font-mono tabular-nums min-w-[9rem]">
+            <span className={`text-sm font-bold ${offset === 0 ? 'text-cyan-400' : 'text-slate-200'}`}>
+              {offset === 0 ? 'Crossing' : `${offset > 0 ? '+' : ''}${offset} frame${Math.abs(offset) === 1 ? '' : 's'}`}
+            </span>
+            <span className="text-[10px] text-slate-500">
+              {offset === 0 ? `${index + 1} / ${frameCount}` : `${frame.timestamp >= trigger.timestamp ? '+' : ''}${frame.timestamp - trigger.timestamp} ms`}
+            </span>
+          </div>
+          <button
+            onClick={() => step(1)}
+            disabled={index === frameCount - 1}
+            className="p-3 bg-slate-800 text-slate-300 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-full transition-all active:scale-95 disabled:opacity-30"
+            title="Next Frame"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { SharedPreset } from '../services/presetLink';
+import { Download, X } from 'lucide-react';
+
+interface PresetImportPromptProps {
+  preset: SharedPreset;
+  onImport: () => void;
+  onDismiss: () => void;
+}
+
+// Offered when the app is opened from a preset link
+export default function PresetImportPrompt({ preset, onImport, onDismiss }: PresetImportPromptProps) {
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 animate-in fade-in duration-200">
+      <div className="bg-slate-900/95 border border-slate-700 shadow-2xl rounded-3xl w-full max-w-sm overflow-hidden flex flex-col">
+        <div className="px-6 py-5 space-y-2">
+          <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200 truncate">
+            Import preset “{preset.name}”
+          </h2>
+          <p className="text-xs font-mono text-slate-400">
+            The preset is added to your presets and applied. Camera, remote and shortcut settings on this device stay as they are.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex gap-3">
+          <button
+            onClick={onDismiss}
+            className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-slate-200 font-bold rounded-xl transition-colors flex items-center justify-center gap-2 uppercase tracking-wider text-sm border border-slate-700"
+          >
+            <X size={16} /> Dismiss
+          </button>
+          <button
+            onClick={onImport}
+            className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 active:bg-cyan-700 text-white font-bold rounded-xl transition-colors flex items-center justify-center gap-2 uppercase tracking-wider text-sm shadow-lg shadow-cyan-900/20"
+          >
+            <Download size={16} /> Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
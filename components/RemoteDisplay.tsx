@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AppSettings, Lap } from '../types';
+import { computeLapStats } from '../utils/lapStats';
+import { clockNow } from '../utils/frameTiming';
+import { EMPTY_REMOTE_SNAPSHOT, RemoteStatus, applyRemoteEvent, isScoreboardEvent, openRemoteChannel } from '../services/remoteLink';
+import DisplayTab from './DisplayTab';
+
+interface RemoteDisplayProps {
+  relayUrl: string; // Empty to listen on the BroadcastChannel only
+  settings: AppSettings; // Local display preferences; targets come from the sensor device
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+  onExit: () => void;
+  onOpenSettings: () => void;
+}
+
+const noop = () => {};
+
+// Scoreboard driven by another device's lap and session events
+export default function RemoteDisplay({ relayUrl, settings, setSettings, onExit, onOpenSettings }: RemoteDisplayProps) {
+  const [snapshot, setSnapshot] = useState(EMPTY_REMOTE_SNAPSHOT);
+  const [status, setStatus] = useState<RemoteStatus>('connecting');
+  // Local clock minus sensor clock. The smallest observed (received - sent) is the best
+  // estimate: it includes the least network delay. Only the publishing sensor's events count;
+  // gates on the same channel run on their own clocks.
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
+  const clockOffsetRef = useRef<number | null>(null);
+  const publisherRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setSnapshot(EMPTY_REMOTE_SNAPSHOT);
+    clockOffsetRef.current = null;
+    setClockOffset(null);
+    publisherRef.current = null;
+
+    const channel = openRemoteChannel(relayUrl, (message) => {
+      if (!isScoreboardEvent(message)) return;
+      // A snapshot comes from a sensor that (re)connected, which may be a reloaded page with a new id
+      if (publisherRef.current === null || message.type === 'snapshot') {
+        if (publisherRef.current !== message.senderId) clockOffsetRef.current = null;
+        publisherRef.current = message.senderId;
+      }
+      if (message.senderId !== publisherRef.current) return;
+
+      const offset = clockNow() - message.sentAt;
+      if (clockOffsetRef.current === null || offset < clockOffsetRef.current) {
+        clockOffsetRef.current = offset;
+      }
+      setClockOffset(clockOffsetRef.current);
+      setSnapshot(state => applyRemoteEvent(state, message));
+    }, (next) => {
+      setStatus(next);
+      // Ask the sensor device for the session so far
+      if (next === 'open') channel.send({ type: 'hello' });
+    });
+    return () => channel.close();
+  }, [relayUrl]);
+
+  // Lap timestamps shifted onto the local clock so the running timers line up
+  const laps = useMemo<Lap[]>(
+    () => (clockOffset !== null ? snapshot.laps.map(lap => ({ ...lap, timestamp: lap.timestamp + clockOffset })) : snapshot.laps),
+    [snapshot.laps, clockOffset]
+  );
+
+  const stats = useMemo(
+    () => computeLapStats(laps, snapshot.targetLaps, snapshot.targetDuration),
+    [laps, snapshot.targetLaps, snapshot.targetDuration]
+  );
+
+  const displaySettings = useMemo(
+    () => ({ ...settings, targetLaps: snapshot.targetLaps, targetDuration: snapshot.targetDuration, laneMode: false, workout: null }),
+    [settings, snapshot.targetLaps, snapshot.targetDuration]
+  );
+
+  return (
+    <DisplayTab
+      stats={stats}
+      laps={laps}
+      isMonitoring={snapshot.isMonitoring}
+      toggleMonitoring={noop}
+      onExit={onExit}
+      onReset={noop}
+      lastActivity={laps[laps.length - 1]?.timestamp ?? 0}
+      settings={displaySettings}
+      setSettings={setSettings}
+      onOpenSettings={onOpenSettings}
+      remoteStatus={status}
+    />
+  );
+}
@@ -0,0 +1,121 @@
+import React, { useEffect } from 'react';
+import { AppSettings, ReplayRun } from '../types';
+import { GitCompare, Trash2, X } from 'lucide-react';
+
+interface ReplayComparisonProps {
+  runs: ReplayRun[];
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) => (ms / 1000).toFixed(3);
+
+// Settings keys whose values differ from the baseline run
+const changedSettings = (baseline: AppSettings, settings: AppSettings) =>
+  (Object.keys(settings) as (keyof AppSettings)[])
+    .filter(key => JSON.stringify(settings[key]) !== JSON.stringify(baseline[key]));
+
+const formatValue = (value: AppSettings[keyof AppSettings]) =>
+  typeof value === 'object' && value !== null ? '…' : String(value);
+
+// Lap lists of replays of the same clip side by side; the first run is the baseline
+export default function ReplayComparison({ runs, onClear, onClose }: ReplayComparisonProps) {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const baseline = runs[0];
+  const rowCount = Math.max(0, ...runs.map(run => run.lapDurations.length));
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-black animate-in fade-in duration-200">
+      <div className="flex-none flex items-center justify-between px-6 py-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-cyan-400 min-w-0">
+          <GitCompare size={20} className="flex-none" />
+          <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200 truncate">{baseline?.clipName ?? 'Replays'}</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onClear}
+            disabled={runs.length === 0}
+            className="p-2 text-slate-400 hover:text-rose-400 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-30"
+            title="Clear Runs"
+          >
+            <Trash2 size={18} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto no-scrollbar p-6">
+        {!baseline ? (
+          <p className="text-xs font-mono text-slate-500 text-center">Replay the clip to collect runs.</p>
+        ) : (
+          <table className="font-mono tabular-nums text-xs border-separate border-spacing-x-4 border-spacing-y-1.5 mx-auto">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-wider text-slate-500 align-top">
+                <th className="text-left font-semibold">Lap</th>
+                {runs.map((run, i) => {
+                  const changed = i === 0 ? [] : changedSettings(baseline.settings, run.settings);
+                  return (
+                    <th key={run.id} className="text-right font-semibold">
+                      <div className={i === 0 ? 'text-cyan-400' : 'text-slate-300'}>Run {i + 1}</div>
+                      <div className="normal-case tracking-normal font-normal text-slate-500">
+                        {i === 0 ? 'baseline' : changed.length === 0 ? 'same settings' : changed.map(key => (
+                          <div key={key}>{key}: {formatValue(run.settings[key])}</div>
+                        ))}
+                      </div>
+                    </th>
+                  );
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: rowCount }, (_, lapIndex) => (
+                <tr key={lapIndex}>
+                  <td className="text-slate-500">{lapIndex + 1}</td>
+                  {runs.map((run, i) => {
+                    const duration = run.lapDurations[lapIndex];
+                    const reference = baseline.lapDurations[lapIndex];
+                    const delta = i > 0 && duration !== undefined && reference !== undefined ? duration - reference : null;
+                    return (
+                      <td key={run.id} className="text-right">
+                        {duration === undefined ? (
+                          <span className="text-slate-700">—</span>
+                        ) : (
+                          <>
+                            <span className="font-bold text-slate-200">{formatTime(duration)}</span>
+                            {delta !== null && delta !== 0 && (
+                              <span className={`ml-1.5 text-[10px] ${delta > 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+                                {delta > 0 ? '+' : ''}{formatTime(delta)}
+                              </span>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              <tr className="text-slate-400">
+                <td className="pt-2 border-t border-slate-800 text-[10px] uppercase tracking-wider">Laps</td>
+                {runs.map(run => (
+                  <td key={run.id} className="pt-2 border-t border-slate-800 text-right font-bold">{run.lapDurations.length}</td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { FrameSourceControl } from '../services/frameSource';
+import { Play, Pause, Download, GitCompare } from 'lucide-react';
+
+interface ReplayControlsProps {
+  controlRef: React.MutableRefObject<FrameSourceControl | null>;
+  file: File;
+  recorded: boolean; // Recorded clips only exist in memory, so they can be downloaded
+  runCount: number;
+  onCompare: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatClock = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+
+// Playback of a file source. Detection is timed by media time, so speed and seeking only change
+// how long the analysis takes, not the lap times it finds.
+export default function ReplayControls({ controlRef, file, recorded, runCount, onCompare }: ReplayControlsProps) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPaused, setIsPaused] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const video = controlRef.current?.video ?? null;
+
+  useEffect(() => {
+    if (!video) return;
+    const sync = () => {
+      setCurrentTime(video.currentTime);
+      setDuration(Number.isFinite(video.duration) ? video.duration : 0);
+      setIsPaused(video.paused);
+    };
+    const events = ['timeupdate', 'durationchange', 'loadedmetadata', 'play', 'pause', 'seeked'];
+    events.forEach(type => video.addEventListener(type, sync));
+    sync();
+    return () => events.forEach(type => video.removeEventListener(type, sync));
+  }, [video, file]);
+
+  useEffect(() => {
+    if (video) video.playbackRate = speed;
+  }, [video, speed, file]);
+
+  if (!video) return null;
+
+  const togglePlay = () => {
+    if (video.paused) video.play().catch(e => console.error("Play error:", e));
+    else video.pause();
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 bg-black/70 backdrop-blur-sm rounded-2xl border border-slate-700/50 font-mono">
+      <button onClick={togglePlay} className="p-1.5 text-slate-300 hover:text-cyan-400 transition-colors" title={isPaused ? 'Play' : 'Pause'}>
+        {isPaused ? <Play size={16} fill="currentColor" /> : <Pause size={16} fill="currentColor" />}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.01}
+        value={currentTime}
+        onChange={(e) => { video.currentTime = Number(e.target.value); }}
+        className="flex-1 min-w-0 accent-cyan-500"
+      />
+      <span className="text-[10px] tabular-nums text-slate-400 whitespace-nowrap">{formatClock(currentTime)} / {formatClock(duration)}</span>
+      <select
+        value={speed}
+        onChange={(e) => setSpeed(Number(e.target.value))}
+        className="bg-slate-900 border border-slate-700 rounded-lg px-1.5 py-1 text-[10px] text-slate-300 focus:outline-none focus:border-cyan-500/50"
+        title="Playback Speed"
+      >
+        {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <button
+        onClick={onCompare}
+        disabled={runCount === 0}
+        className="flex items-center gap-1 p-1.5 text-slate-400 hover:text-cyan-400 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+        title="Compare Replays"
+      >
+        <GitCompare size={16} />
+        {runCount > 0 && <span className="text-[10px] font-bold">{runCount}</span>}
+      </button>
+      {recorded && (
+        <button onClick={download} className="p-1.5 text-slate-400 hover:text-cyan-400 transition-colors" title="Download Clip">
+          <Download size={16} />
+        </button>
+      )}
+    </div>
+  );
+}
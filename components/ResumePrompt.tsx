@@ -0,0 +1,53 @@
+import React from 'react';
+import { SessionCheckpoint } from '../services/sessionCheckpoint';
+import { getCompletedLaps } from '../utils/lapStats';
+import { clockNow } from '../utils/frameTiming';
+import { RotateCcw, Trash2 } from 'lucide-react';
+
+interface ResumePromptProps {
+  checkpoint: SessionCheckpoint;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+export default function ResumePrompt({ checkpoint, onResume, onDiscard }: ResumePromptProps) {
+  const lapCount = getCompletedLaps(checkpoint.laps).length;
+  const offlineSeconds = Math.round((clockNow() - checkpoint.savedAt) / 1000);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 animate-in fade-in duration-200">
+      <div className="bg-slate-900/95 border border-slate-700 shadow-2xl rounded-3xl w-full max-w-sm overflow-hidden flex flex-col">
+        <div className="px-6 py-5 space-y-2">
+          <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200">
+            Resume session from {formatClock(checkpoint.laps[0].timestamp)}
+          </h2>
+          <p className="text-xs font-mono text-slate-400">
+            {lapCount} {lapCount === 1 ? 'lap' : 'laps'} recorded.
+            {checkpoint.isMonitoring && (
+              <> Detection has been offline for {offlineSeconds}s; the gap will be marked.</>
+            )}
+            {' '}Discarding keeps the laps in History.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 bg-slate-900/50 flex gap-3">
+          <button
+            onClick={onDiscard}
+            className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-rose-400 font-bold rounded-xl transition-colors flex items-center justify-center gap-2 uppercase tracking-wider text-sm border border-slate-700"
+          >
+            <Trash2 size={16} /> Discard
+          </button>
+          <button
+            onClick={onResume}
+            className="flex-1 py-3 bg-cyan-600 hover:bg-cyan-500 active:bg-cyan-700 text-white font-bold rounded-xl transition-colors flex items-center justify-center gap-2 uppercase tracking-wider text-sm shadow-lg shadow-cyan-900/20"
+          >
+            <RotateCcw size={16} /> Resume
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Session, SlitScan } from '../types';
+import { getCompletedLaps } from '../utils/lapStats';
+import { getSessionSlitScans } from '../services/slitScanStore';
+import { ScanLine, X, Plus, Minus, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface SlitScanViewerProps {
+  session: Session;
+  onClose: () => void;
+}
+
+interface Marker {
+  column: number;
+  label: string;
+  timestamp: number;
+}
+
+const ZOOM_LEVELS = [1, 2, 4, 8]; // Screen pixels per column
+
+// First column captured at or after the timestamp, -1 when it is outside the strip
+const findColumn = (timestamps: number[], timestamp: number) => {
+  if (timestamps.length === 0 || timestamp < timestamps[0] || timestamp > timestamps[timestamps.length - 1]) return -1;
+  let lo = 0;
+  let hi = timestamps.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (timestamps[mid] < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Time-versus-position image of the start/finish line. Scrubbing reads the time of any column,
+// so crossings can be timed from the image itself, not only from the detector's triggers.
+export default function SlitScanViewer({ session, onClose }: SlitScanViewerProps) {
+  const [scans, setScans] = useState<SlitScan[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scanIndex, setScanIndex] = useState(0);
+  const [zoomIndex, setZoomIndex] = useState(1);
+  const [cursor, setCursor] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSessionSlitScans(session.id)
+      .then((found) => {
+        if (cancelled) return;
+        if (found.length === 0) setError('No slit-scan strip was recorded for this session.');
+        setScans(found);
+      })
+      .catch((e) => {
+        console.error('Failed to load slit-scan strip:', e);
+        if (!cancelled) setError('The slit-scan strip is unavailable.');
+      });
+    return () => { cancelled = true; };
+  }, [session.id]);
+
+  const scan = scans?.[scanIndex];
+  const urls = useMemo(() => scan?.chunks.map(chunk => URL.createObjectURL(chunk)) ?? [], [scan]);
+  useEffect(() => () => urls.forEach(url => URL.revokeObjectURL(url)), [urls]);
+
+  const sessionStart = session.laps[0]?.timestamp ?? session.startedAt;
+  const columnWidth = ZOOM_LEVELS[zoomIndex];
+  const columnCount = scan?.timestamps.length ?? 0;
+
+  // Lap crossings (every lane's in lane sessions) placed on the strip
+  const markers = useMemo<Marker[]>(() => {
+    if (!scan) return [];
+    const lapEntries = session.laneLaps
+      ? session.settings.lanes.flatMap(lane => getCompletedLaps(session.laneLaps?.[lane.id] ?? [])
+        .map((lap, i) => ({ lap, label: `${lane.athleteName || 'Lane'} ${i + 1}` })))
+      : getCompletedLaps(session.laps).map((lap, i) => ({ lap, label: `Lap ${i + 1}` }));
+    return lapEntries
+      .map(({ lap, label }) => ({ column: findColumn(scan.timestamps, lap.timestamp), label, timestamp: lap.timestamp }))
+      .filter(m => m.column !== -1);
+  }, [scan, session]);
+
+  // A tick at the first column of every elapsed second
+  const ticks = useMemo(() => {
+    if (!scan) return [];
+    const result: { column: number; second: number }[] = [];
+    let lastSecond = -Infinity;
+    scan.timestamps.forEach((timestamp, column) => {
+      const second = Math.floor((timestamp - sessionStart) / 1000);
+      if (second !== lastSecond) result.push({ column, second });
+      lastSecond = second;
+    });
+    return result;
+  }, [scan, sessionStart]);
+
+  // Single-column steps; touch drags scroll the strip, so taps plus steps do the fine placement
+  const stepCursor = (delta: number) =>
+    setCursor(c => Math.max(0, Math.min(columnCount - 1, c === null ? 0 : c + delta)));
+
+  useEffect(() => {
+    // Captured first, so the arrow keys step frames here rather than reaching the lap shortcuts
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+      e.stopPropagation();
+      stepCursor(e.key === 'ArrowLeft' ? -1 : 1);
+    };
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  });
+
+  const scrub = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const column = Math.floor((e.clientX - rect.left) / columnWidth);
+    setCursor(Math.max(0, Math.min(columnCount - 1, column)));
+  };
+
+  const cursorTime = scan && cursor !== null ? scan.timestamps[cursor] : null;
+  const previousMarker = cursor !== null ? [...markers].reverse().find(m => m.column <= cursor) : undefined;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex flex-col bg-black animate-in fade-in duration-200">
+      <div className="flex-none flex items-center justify-between px-6 py-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 text-cyan-400 min-w-0">
+          <ScanLine size={20} className="flex-none" />
+          <h2 className="font-bold uppercase tracking-wider text-sm text-slate-200 truncate">{session.name}</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setZoomIndex(i => Math.max(0, i - 1))}
+            disabled={zoomIndex === 0}
+            className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-30"
+            title="Zoom Out"
+          >
+            <Minus size={18} />
+          </button>
+          <button
+            onClick={() => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, i + 1))}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+            className="p-2 text-slate-400 hover:text-cyan-400 hover:bg-slate-800 rounded-full transition-colors disabled:opacity-30"
+            title="Zoom In"
+          >
+            <Plus size={18} />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 -mr-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      {/* Runs of a session that was stopped and restarted */}
+      {scans && scans.length > 1 && (
+        <div className="flex-none flex gap-1.5 px-6 pt-3 overflow-x-auto no-scrollbar">
+          {scans.map((s, i) => (
+            <button
+              key={s.id}
+              onClick={() => { setScanIndex(i); setCursor(null); }}
+              className={`flex-none px-3 py-1.5 rounded-full border text-[10px] font-mono font-bold uppercase tracking-wide transition-all active:scale-95 ${scanIndex === i
+                ? 'bg-cyan-500/10 text-cyan-400 border-cyan-500/40'
+                : 'bg-slate-800 text-slate-500 border-slate-700 hover:text-slate-300'
+                }`}
+            >
+              Run {i + 1}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0 flex flex-col justify-center">
+        {error && <p className="text-xs font-mono text-slate-500 text-center">{error}</p>}
+        {scan && (
+          <div className="overflow-x-auto no-scrollbar px-6">
+            <div
+              className="relative touch-pan-x cursor-crosshair"
+              style={{ width: columnCount * columnWidth, height: 'min(55vh, 480px)' }}
+              onPointerDown={scrub}
+              onPointerMove={scrub}
+            >
+              {urls.map((url, i) => (
+                <img
+                  key={url}
+                  src={url}
+                  alt=""
+                  draggable={false}
+                  className="absolute top-5 bottom-0 max-w-none select-none"
+                  style={{ left: i * scan.chunkColumns * columnWidth, width: Math.min(scan.chunkColumns, columnCount - i * scan.chunkColumns) * columnWidth, height: 'calc(100% - 1.25rem)', imageRendering: 'pixelated' }}
+                />
+              ))}
+
+              {/* Time axis */}
+              {ticks.map(({ column, second }) => (
+                <div key={column} className="absolute top-0 h-5 border-l border-slate-700 pl-1 text-[9px] font-mono text-slate-500" style={{ left: column * columnWidth }}>
+                  {second}s
+                </div>
+              ))}
+
+              {markers.map((marker) => (
+                <div key={marker.label} className="absolute top-5 bottom-0 border-l-2 border-amber-400/80 pointer-events-none" style={{ left: marker.column * columnWidth }}>
+                  <span className="absolute top-1 left-1 px-1 rounded bg-black/70 text-[9px] font-mono font-bold text-amber-400 whitespace-nowrap">{marker.label}</span>
+                </div>
+              ))}
+
+              {cursor !== null && (
+                <div className="absolute top-0 bottom-0 border-l border-cyan-400 pointer-events-none" style={{ left: cursor * columnWidth + columnWidth / 2 }} />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-none px-6 py-4 border-t border-slate-800 font-mono tabular-nums text-center">
+        {cursorTime !== null ? (
+          <div className="flex items-center justify-center gap-6">
+            <button
+              onClick={() => stepCursor(-1)}
+              className="p-2 bg-slate-800 text-slate-300 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-full transition-all active:scale-95"
+              title="Previous Column"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span className="text-sm font-bold text-cyan-400">{((cursorTime - sessionStart) / 1000).toFixed(3)}s</span>
+            {previousMarker && (
+              <span className="text-[11px] text-slate-500">
+                {cursorTime >= previousMarker.timestamp ? '+' : ''}{((cursorTime - previousMarker.timestamp) / 1000).toFixed(3)}s from {previousMarker.label}
+              </span>
+            )}
+            <button
+              onClick={() => stepCursor(1)}
+              className="p-2 bg-slate-800 text-slate-300 hover:text-cyan-400 hover:bg-slate-700 border border-slate-700 rounded-full transition-all active:scale-95"
+              title="Next Column"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        ) : (
+          <span className="text-[11px] text-slate-500 uppercase tracking-widest">{scan ? 'Tap or drag on the strip to read a time' : ''}</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FrameSource } from '../types';
+import { ClipRecording, FrameSourceControl, canRecordClips, startClipRecording } from '../services/frameSource';
+import { Camera, FileVideo, Circle, Square } from 'lucide-react';
+
+interface SourcePickerProps {
+  source: FrameSource;
+  onChange: (source: FrameSource) => void;
+  controlRef: React.MutableRefObject<FrameSourceControl | null>;
+  disabled: boolean; // The source can't change under a running session
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-2 bg-black/60 backdrop-blur-sm rounded-xl border text-[10px] font-semibold uppercase tracking-wide transition-all disabled:opacity-60 disabled:pointer-events-none';
+
+// Camera, a video file, or a clip recorded from the camera for replaying later
+export default function SourcePicker({ source, onChange, controlRef, disabled }: SourcePickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const recordingRef = useRef<ClipRecording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  // Leaving the camera (or unmounting) ends a recording without keeping it
+  useEffect(() => {
+    if (source.kind === 'camera') return;
+    recordingRef.current?.stop().catch(() => undefined);
+    recordingRef.current = null;
+    setIsRecording(false);
+  }, [source]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onChange({ kind: 'file', file });
+  };
+
+  const toggleRecording = () => {
+    if (recordingRef.current) {
+      const recording = recordingRef.current;
+      recordingRef.current = null;
+      setIsRecording(false);
+      recording.stop()
+        .then(file => onChange({ kind: 'file', file, recorded: true }))
+        .catch(e => console.error('Failed to record clip:', e));
+      return;
+    }
+    const stream = controlRef.current?.stream;
+    if (!stream) return;
+    try {
+      recordingRef.current = startClipRecording(stream);
+      setIsRecording(true);
+    } catch (e) {
+      console.error('Failed to start recording:', e);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <button
+        onClick={() => onChange({ kind: 'camera' })}
+        disabled={disabled || isRecording}
+        className={`${buttonClass} ${source.kind === 'camera' ? 'text-cyan-400 border-cyan-500/30' : 'text-slate-400 border-slate-700/50 hover:text-cyan-400'}`}
+        title="Use Camera"
+      >
+        <Camera size={14} /> Camera
+      </button>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isRecording}
+        className={`${buttonClass} ${source.kind === 'file' ? 'text-cyan-400 border-cyan-500/30' : 'text-slate-400 border-slate-700/50 hover:text-cyan-400'}`}
+        title={source.kind === 'file' ? source.file.name : 'Open Video File'}
+      >
+        <FileVideo size={14} />
+        <span className="max-w-[7rem] truncate">{source.kind === 'file' ? source.file.name : 'File'}</span>
+      </button>
+      {source.kind === 'camera' && canRecordClips() && (
+        <button
+          onClick={toggleRecording}
+          className={`${buttonClass} ${isRecording ? 'text-rose-400 border-rose-500/40' : 'text-slate-400 border-slate-700/50 hover:text-rose-400'}`}
+          title={isRecording ? 'Stop and Replay Clip' : 'Record Clip'}
+        >
+          {isRecording ? <Square size={12} fill="currentColor" /> : <Circle size={12} fill="currentColor" />}
+          {isRecording ? 'Stop' : 'Rec'}
+        </button>
+      )}
+      <input ref={fileInputRef} type="file" accept="video/*" className="hidden" onChange={handleFile} />
+    </div>
+  );
+}
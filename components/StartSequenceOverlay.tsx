@@ -0,0 +1,36 @@
+import React from 'react';
+import { StartStage } from '../types';
+import { AlertTriangle } from 'lucide-react';
+
+interface StartSequenceOverlayProps {
+  stage: StartStage;
+  falseStart: boolean;
+}
+
+const STAGE_LABELS: Record<StartStage, { text: string; color: string }> = {
+  ready: { text: 'Ready', color: 'text-amber-400 drop-shadow-[0_0_30px_rgba(251,191,36,0.5)]' },
+  set: { text: 'Set', color: 'text-orange-400 drop-shadow-[0_0_30px_rgba(251,146,60,0.5)]' },
+  go: { text: 'Go!', color: 'text-emerald-400 drop-shadow-[0_0_40px_rgba(52,211,153,0.6)]' },
+};
+
+// Full-screen Ready - Set - Go cue, shown over both the monitor and the display
+export default function StartSequenceOverlay({ stage, falseStart }: StartSequenceOverlayProps) {
+  const { text, color } = STAGE_LABELS[stage];
+
+  return (
+    <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/50 pointer-events-none animate-in fade-in duration-150">
+      <div
+        key={stage}
+        className={`font-black uppercase tracking-[0.15em] portrait:rotate-90 animate-in zoom-in-50 duration-200 ${color}`}
+        style={{ fontSize: 'min(20vmax, 30vmin)' }}
+      >
+        {text}
+      </div>
+      {falseStart && (
+        <div className="mt-6 flex items-center gap-3 px-5 py-2 rounded-xl bg-rose-500/15 border border-rose-500/40 text-rose-400 font-bold uppercase tracking-widest" style={{ fontSize: 'min(2.5vmax, 3.5vmin)' }}>
+          <AlertTriangle size={24} /> False Start
+        </div>
+      )}
+    </div>
+  );
+}
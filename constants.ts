@@ -1,14 +1,131 @@
-export const DEFAULT_SETTINGS = {
+import { AppSettings, CameraSettings, IntervalWorkout } from './types';
+
+export const DEFAULT_SETTINGS: AppSettings = {
   tripwireX: 50,
   tripwireY: 50,
   detectionWidth: 15,
   detectionHeight: 15,
   sensitivity: 25,
+  crossingDirection: 'any',
+  detectionModel: 'frameDiff',
+  detector: 'rgb',
+  zScoreThreshold: 5,
   cooldown: 1000,
   devMode: false,
   showCurrentLapDisplay: false,
   targetLaps: 0,
   targetDuration: 0,
+  checkpoints: [],
+  laneMode: false,
+  lanes: [],
+  workout: null,
+  audio: {
+    volume: 70,
+    lapTone: true,
+    toneStyle: 'beep',
+    paceTones: true,
+    speakLaps: false,
+    countdownBeeps: true,
+    finishFanfare: true,
+  },
+  trigger: {
+    exitRatio: 0.6,
+    minFrames: 2,
+    minChangedArea: 0.03,
+    pixelThreshold: 40,
+  },
+  startMode: 'immediate',
+  startVoice: false,
+  remotePublish: false,
+  remoteRelayUrl: '',
+  gateRole: 'off',
+  photoFinish: true,
+  slitScan: false,
+  subFrameTiming: true,
+  offscreenCapture: true,
+  tapTarget: false,
+  shortcuts: {
+    lap: [' ', 'PageDown', 'ArrowRight', 'MediaPlayPause', 'MediaTrackNext'],
+    startStop: ['Enter'],
+    reset: [], // Unbound: one key would wipe the session with no way back
+    undoLap: ['Backspace', 'PageUp', 'ArrowLeft'],
+    displayMode: ['d'],
+  },
+};
+
+// Settings that belong to the device rather than the venue: presets and shared links leave them as they are
+export const DEVICE_SETTING_KEYS = ['devMode', 'remotePublish', 'remoteRelayUrl', 'gateRole', 'offscreenCapture', 'shortcuts'] as const satisfies readonly (keyof AppSettings)[];
+
+// Starting point when a workout is first enabled: 6 × (3 laps, 90 s rest)
+export const DEFAULT_WORKOUT: IntervalWorkout = {
+  sets: 6,
+  workType: 'laps',
+  workLaps: 3,
+  workSeconds: 60,
+  restSeconds: 90,
 };
 
-export const MAX_HISTORY_LAPS = 100;
\ No newline at end of file
+// Worker/trigger id of the start/finish zone; checkpoint zones use their own ids
+export const FINISH_ZONE_ID = 'finish';
+export const MAX_CHECKPOINTS = 4;
+export const MAX_LANES = 4;
+
+// Badge colours offered in the athlete roster
+export const ATHLETE_COLORS = ['#22d3ee', '#f59e0b', '#10b981', '#f43f5e', '#a78bfa', '#f97316', '#84cc16', '#ec4899'];
+
+// Ready - Set - Go: time from Ready to Set, then a random hold before Go
+export const START_STAGE_MS = 2000;
+export const START_HOLD_MIN_MS = 1000;
+export const START_HOLD_MAX_MS = 3000;
+
+// targetDuration countdown beeps cover this many final seconds
+export const COUNTDOWN_BEEP_SECONDS = 5;
+
+// Oldest sessions beyond this count are pruned from the IndexedDB history
+export const MAX_HISTORY_SESSIONS = 100;
+// How often a running session refreshes its checkpoint, bounding how far the
+// recorded start of an offline gap can be from the moment the tab died
+export const CHECKPOINT_HEARTBEAT_MS = 2000;
+
+// Max time between motion in the leading half and the trailing half of a zone
+// for the two to count as one directional crossing
+export const CROSSING_WINDOW_MS = 1000;
+
+// Zones are blurred before diffing to suppress sensor noise; the same filter on both capture paths
+export const CAPTURE_BLUR_FILTER = 'blur(4px)';
+
+// Two-camera timing: the finish gate measures the clock offset this often and keeps the
+// best (lowest round trip) of the most recent samples, so drift is followed
+export const CLOCK_SYNC_INTERVAL_MS = 1000;
+export const CLOCK_SYNC_SAMPLES = 8;
+// The gates count as linked while sync messages keep arriving within this window
+export const GATE_LINK_TIMEOUT_MS = 3000;
+
+// Photo-finish: frames kept either side of each crossing, JPEG quality and thumbnail width
+export const PHOTO_FINISH_FRAMES_BEFORE = 6;
+export const PHOTO_FINISH_FRAMES_AFTER = 6;
+export const PHOTO_FINISH_MAX_WIDTH = 640;
+export const PHOTO_FINISH_QUALITY = 0.75;
+export const PHOTO_FINISH_THUMB_WIDTH = 160;
+
+// Slit-scan: columns per stored JPEG chunk, and a cap of about 10 minutes at 60 fps per run
+export const SLIT_SCAN_CHUNK_COLUMNS = 1024;
+export const SLIT_SCAN_MAX_COLUMNS = 36000;
+
+// Camera: the previous hard-coded constraints are the defaults
+export const DEFAULT_CAMERA: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 360,
+  frameRate: 60,
+  lockExposure: false,
+  lockFocus: false,
+  lockWhiteBalance: false,
+  torch: false,
+};
+export const CAMERA_RESOLUTIONS = [
+  { width: 640, height: 360 },
+  { width: 1280, height: 720 },
+  { width: 1920, height: 1080 },
+];
+export const CAMERA_FRAME_RATES = [30, 60, 120, 240];
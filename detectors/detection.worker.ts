@@ -0,0 +1,106 @@
+import { DetectorKind } from '../types';
+import { CAPTURE_BLUR_FILTER } from '../constants';
+import { DETECTORS } from './index';
+import { CropRect, Detector, DetectionRequest, DetectionResponse, ZoneResult } from './types';
+
+// Detection worker: one detector per zone id, recreated when the zone's detector kind changes
+const zoneDetectors = new Map<string, { kind: DetectorKind; detector: Detector }>();
+
+// Frame cropping for PROCESS_FRAME; created on first use
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+const getDetector = (zoneId: string, kind: DetectorKind) => {
+  let entry = zoneDetectors.get(zoneId);
+  if (!entry || entry.kind !== kind) {
+    entry = { kind, detector: DETECTORS[kind].create() };
+    zoneDetectors.set(zoneId, entry);
+  }
+  return entry.detector;
+};
+
+const getContext = (width: number, height: number) => {
+  if (typeof OffscreenCanvas === 'undefined') return null;
+  if (!canvas) {
+    canvas = new OffscreenCanvas(width, height);
+    ctx = canvas.getContext('2d', { willReadFrequently: true, alpha: false });
+  }
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return ctx;
+};
+
+const detectZones = (request: Extract<DetectionRequest, { type: 'PROCESS' | 'PROCESS_FRAME' }>, zones: { id: string; width: number; data: Uint8ClampedArray }[]) => {
+  const results: Record<string, ZoneResult> = {};
+  for (const zone of zones) {
+    const detector = getDetector(zone.id, request.detector);
+    detector.configure(request.config);
+    results[zone.id] = detector.process({ data: zone.data, width: zone.width, height: zone.data.length / 4 / zone.width });
+  }
+  return results;
+};
+
+// Same steps as the main-thread path: the clean frame (for the slit-scan line), then the
+// zones redrawn blurred and read back
+const cropFrame = (ctx: OffscreenCanvasRenderingContext2D, frame: VideoFrame | ImageBitmap, zones: CropRect[], line: Omit<CropRect, 'id'> | null) => {
+  ctx.filter = 'none';
+  ctx.drawImage(frame, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  const lineData = line ? ctx.getImageData(line.x, line.y, line.w, line.h).data : undefined;
+
+  ctx.filter = CAPTURE_BLUR_FILTER;
+  zones.forEach(({ x, y, w, h }) => ctx.drawImage(frame, x, y, w, h, x, y, w, h));
+  ctx.filter = 'none';
+
+  const crops = zones.map(({ id, x, y, w, h }) => ({ id, width: w, data: ctx.getImageData(x, y, w, h).data }));
+  return { crops, lineData };
+};
+
+self.onmessage = (e: MessageEvent<DetectionRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'RESET') {
+    zoneDetectors.clear();
+    return;
+  }
+
+  let response: DetectionResponse;
+  if (request.type === 'PROCESS') {
+    const start = performance.now();
+    const results = detectZones(request, request.zones.map(z => ({ id: z.id, width: z.width, data: new Uint8ClampedArray(z.data) })));
+    response = {
+      type: 'RESULT',
+      results,
+      // The frame's capture time travels with it, so crossings are dated by the frame
+      frameTime: request.frameTime,
+      frameClock: request.frameClock,
+      timings: { crop: 0, detect: performance.now() - start },
+    };
+    self.postMessage(response);
+    return;
+  }
+
+  const ctx = getContext(request.width, request.height);
+  if (!ctx) {
+    request.frame.close();
+    self.postMessage({ type: 'UNSUPPORTED' } satisfies DetectionResponse);
+    return;
+  }
+
+  const start = performance.now();
+  const { crops, lineData } = cropFrame(ctx, request.frame, request.zones, request.line);
+  request.frame.close();
+  const cropped = performance.now();
+  const results = detectZones(request, crops);
+
+  response = {
+    type: 'RESULT',
+    results,
+    frameTime: request.frameTime,
+    frameClock: request.frameClock,
+    timings: { crop: cropped - start, detect: performance.now() - cropped },
+    ...(lineData && { line: lineData.buffer as ArrayBuffer }),
+  };
+  self.postMessage(response, { transfer: lineData ? [lineData.buffer] : [] });
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { createRgbDetector } from './rgbDetector';
+import { createLumaDetector } from './lumaDetector';
+import { createGradientDetector } from './gradientDetector';
+import { DEFAULT_DETECTOR_CONFIG } from './diffDetector';
+import { Detector, DetectorConfig, DetectorFrame } from './types';
+
+// 16 x 16 zones are sampled every 4th pixel: columns 0 and 4 of each row in the left half,
+// 8 and 12 in the right
+const SIZE = 16;
+
+type Rgb = [number, number, number];
+
+// A frame whose pixel at (x, y) has the colour fill returns
+const makeFrame = (fill: (x: number, y: number) => Rgb): DetectorFrame => {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const i = (y * SIZE + x) * 4;
+      [data[i], data[i + 1], data[i + 2]] = fill(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+};
+
+const solid = (colour: Rgb) => makeFrame(() => colour);
+
+const frameDiff: DetectorConfig = { ...DEFAULT_DETECTOR_CONFIG, model: 'frameDiff' };
+
+// Score of the second frame against the first
+const scoreChange = (create: () => Detector, from: DetectorFrame, to: DetectorFrame, config = frameDiff) => {
+  const detector = create();
+  detector.configure(config);
+  detector.process(from);
+  return detector.process(to);
+};
+
+describe('RGB detector', () => {
+  it('reports no motion on the first frame', () => {
+    const detector = createRgbDetector();
+    expect(detector.process(solid([50, 50, 50]))).toMatchObject({ diff: 0, changed: 0, ready: false });
+  });
+
+  it('sums the three channel differences', () => {
+    const result = scoreChange(createRgbDetector, solid([10, 20, 30]), solid([20, 40, 60]));
+    expect(result.diff).toBeCloseTo(60);
+    expect(result.halves).toEqual([60, 60]);
+  });
+
+  it('scores an unchanged frame as zero', () => {
+    expect(scoreChange(createRgbDetector, solid([80, 90, 100]), solid([80, 90, 100])).diff).toBe(0);
+  });
+});
+
+describe('Luma detector', () => {
+  it('matches the RGB scale for a grey change', () => {
+    expect(scoreChange(createLumaDetector, solid([50, 50, 50]), solid([70, 70, 70])).diff).toBeCloseTo(60, 3);
+  });
+
+  it('ignores a colour shift that keeps the brightness', () => {
+    const from = solid([100, 100, 100]);
+    const to = solid([159, 70, 100]);
+    expect(scoreChange(createRgbDetector, from, to).diff).toBeGreaterThan(80);
+    expect(scoreChange(createLumaDetector, from, to).diff).toBeLessThan(1);
+  });
+});
+
+describe('Gradient detector', () => {
+  it('ignores an even change in lighting', () => {
+    expect(scoreChange(createGradientDetector, solid([50, 50, 50]), solid([90, 90, 90])).diff).toBe(0);
+  });
+
+  it('scores an edge moving into the zone', () => {
+    const edge = makeFrame(x => (x < SIZE / 2 ? [50, 50, 50] : [200, 200, 200]));
+    const result = scoreChange(createGradientDetector, solid([50, 50, 50]), edge);
+    expect(result.diff).toBeGreaterThan(0);
+    expect(result.changed).toBeGreaterThan(0);
+  });
+});
+
+describe('Changed area', () => {
+  it('is the fraction of sampled pixels over the pixel threshold', () => {
+    const quarter = makeFrame((x, y) => (x < SIZE / 2 && y < SIZE / 2 ? [150, 150, 150] : [50, 50, 50]));
+    const result = scoreChange(createRgbDetector, solid([50, 50, 50]), quarter);
+    expect(result.changed).toBeCloseTo(0.25);
+    expect(result.changedHalves).toEqual([0.5, 0]);
+  });
+
+  it('leaves out pixels that changed less than the threshold', () => {
+    const result = scoreChange(createRgbDetector, solid([50, 50, 50]), solid([60, 60, 60]), { ...frameDiff, pixelThreshold: 40 });
+    expect(result.diff).toBeCloseTo(30);
+    expect(result.changed).toBe(0);
+  });
+});
+
+describe('Half split', () => {
+  const leftChanged = makeFrame(x => (x < SIZE / 2 ? [150, 150, 150] : [50, 50, 50]));
+  const topChanged = makeFrame((_, y) => (y < SIZE / 2 ? [150, 150, 150] : [50, 50, 50]));
+
+  it('splits left from right on the x axis', () => {
+    const result = scoreChange(createRgbDetector, solid([50, 50, 50]), leftChanged, { ...frameDiff, axis: 'x' });
+    expect(result.halves).toEqual([300, 0]);
+    expect(result.changedHalves).toEqual([1, 0]);
+    expect(result.diff).toBeCloseTo(150);
+  });
+
+  it('splits top from bottom on the y axis', () => {
+    const config: DetectorConfig = { ...frameDiff, axis: 'y' };
+    expect(scoreChange(createRgbDetector, solid([50, 50, 50]), topChanged, config).changedHalves).toEqual([1, 0]);
+    expect(scoreChange(createRgbDetector, solid([50, 50, 50]), leftChanged, config).changedHalves).toEqual([0.5, 0.5]);
+  });
+});
+
+describe('Background model', () => {
+  const background: DetectorConfig = { ...DEFAULT_DETECTOR_CONFIG, model: 'background' };
+
+  // A detector that has learned a scene of grey 50 with a little flicker
+  const warmedUp = () => {
+    const detector = createRgbDetector();
+    detector.configure(background);
+    for (let i = 0; i < 40; i++) detector.process(solid(i % 2 ? [52, 52, 52] : [50, 50, 50]));
+    return detector;
+  };
+
+  it('is not ready until the baseline has warmed up over 30 frames', () => {
+    const detector = createRgbDetector();
+    detector.configure(background);
+    // The first frame only seeds the reference
+    for (let i = 0; i < 31; i++) expect(detector.process(solid([50, 50, 50])).ready).toBe(false);
+    expect(detector.process(solid([50, 50, 50])).ready).toBe(true);
+  });
+
+  it('learns the noise baseline and puts motion far above it', () => {
+    const detector = warmedUp();
+    const quiet = detector.process(solid([50, 50, 50]));
+    expect(quiet.baseline).toBeLessThan(6);
+    const moving = detector.process(solid([150, 150, 150]));
+    expect(moving.diff).toBeGreaterThan(moving.baseline + background.zThreshold * moving.spread);
+  });
+
+  it('keeps scoring someone standing still, unlike the frame difference', () => {
+    const detector = warmedUp();
+    detector.process(solid([150, 150, 150]));
+    expect(detector.process(solid([150, 150, 150])).diff).toBeGreaterThan(250);
+
+    const frames = createRgbDetector();
+    frames.configure(frameDiff);
+    frames.process(solid([150, 150, 150]));
+    expect(frames.process(solid([150, 150, 150])).diff).toBe(0);
+  });
+
+  it('keeps motion out of the baseline', () => {
+    const detector = warmedUp();
+    const before = detector.process(solid([50, 50, 50])).baseline;
+    for (let i = 0; i < 20; i++) detector.process(solid([150, 150, 150]));
+    expect(detector.process(solid([50, 50, 50])).baseline).toBeCloseTo(before, 0);
+  });
+
+  it('absorbs a lasting change into the background after 300 frames of motion', () => {
+    const detector = warmedUp();
+    for (let i = 0; i < 299; i++) expect(detector.process(solid([150, 150, 150])).diff).toBeGreaterThan(250);
+    detector.process(solid([150, 150, 150]));
+    const after = detector.process(solid([150, 150, 150]));
+    expect(after.diff).toBe(0);
+    expect(after.ready).toBe(false);
+  });
+});
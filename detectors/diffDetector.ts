@@ -0,0 +1,153 @@
+import { Detector, DetectorConfig, DetectorFrame, ZoneResult } from './types';
+
+const BACKGROUND_RATE = 0.02;
+const STATS_RATE = 0.01;
+const WARMUP_FRAMES = 30;
+const MIN_SPREAD = 1;
+// Motion that lasts this many frames (about 10 s at 30 fps) is taken to be a lasting change
+// to the scene, such as a bag set down or a light switched on: the current frame becomes
+// the background and the baseline warms up again, so the change stops triggering
+const ABSORB_AFTER_FRAMES = 300;
+
+// What a detector compares at each sampled pixel. read writes `channels` values for pixel p
+// into out at offset; the difference score is the sum of the channels' absolute differences.
+export interface PixelFeatures {
+  channels: number;
+  read: (frame: DetectorFrame, p: number, out: Float32Array, offset: number) => void;
+}
+
+interface ZoneState {
+  width: number;
+  height: number;
+  prev: Float32Array;
+  current: Float32Array;
+  background: Float32Array;
+  mean: number;
+  variance: number;
+  frames: number;
+  motionFrames: number; // Consecutive frames in motion
+}
+
+export const DEFAULT_DETECTOR_CONFIG: DetectorConfig = { axis: 'x', model: 'frameDiff', zThreshold: 6, pixelThreshold: 40 };
+
+// Large zones are sampled sparsely to keep the per-frame cost flat
+const getSampleStep = (frame: DetectorFrame) => (frame.width * frame.height * 4 > 50000 ? 16 : 4);
+
+// The zone is diffed against a reference of its own: the previous frame ('frameDiff') or a
+// running-average background ('background'). The diff is also reported per half along the
+// axis, and the mean and variance of the score are tracked so a z-score above the noise
+// baseline can trigger. Detectors differ only in the features they compare.
+export function createDiffDetector(features: PixelFeatures): Detector {
+  let config = DEFAULT_DETECTOR_CONFIG;
+  let state: ZoneState | null = null;
+
+  const readAll = (frame: DetectorFrame, out: Float32Array, step: number) => {
+    const pixelCount = frame.width * frame.height;
+    for (let p = 0, o = 0; p < pixelCount; p += step, o += features.channels) {
+      features.read(frame, p, out, o);
+    }
+  };
+
+  return {
+    configure: (next) => {
+      config = next;
+    },
+    reset: () => {
+      state = null;
+    },
+    process: (frame) => {
+      const step = getSampleStep(frame);
+      const sampleCount = Math.ceil((frame.width * frame.height) / step);
+
+      // If dimensions changed or no prev frame, store a copy and report no motion
+      if (!state || state.width !== frame.width || state.height !== frame.height) {
+        const prev = new Float32Array(sampleCount * features.channels);
+        readAll(frame, prev, step);
+        state = {
+          width: frame.width,
+          height: frame.height,
+          prev,
+          current: new Float32Array(prev.length),
+          background: new Float32Array(prev),
+          mean: 0,
+          variance: 0,
+          frames: 0,
+          motionFrames: 0,
+        };
+        return { diff: 0, halves: [0, 0], changed: 0, changedHalves: [0, 0], baseline: 0, spread: MIN_SPREAD, ready: false };
+      }
+
+      const current = state.current;
+      readAll(frame, current, step);
+      const reference = config.model === 'background' ? state.background : state.prev;
+      const { width, height } = frame;
+      const channels = features.channels;
+      const halfScores = [0, 0];
+      const halfChecked = [0, 0];
+      const halfChanged = [0, 0];
+
+      for (let s = 0; s < sampleCount; s++) {
+        const p = s * step;
+        let score = 0;
+        for (let c = 0; c < channels; c++) {
+          score += Math.abs(current[s * channels + c] - reference[s * channels + c]);
+        }
+        const half = config.axis === 'y'
+          ? (Math.floor(p / width) < height / 2 ? 0 : 1)
+          : (p % width < width / 2 ? 0 : 1);
+        halfScores[half] += score;
+        halfChecked[half]++;
+        if (score > config.pixelThreshold) halfChanged[half]++;
+      }
+
+      const pixelsChecked = halfChecked[0] + halfChecked[1];
+      const diff = pixelsChecked > 0 ? (halfScores[0] + halfScores[1]) / pixelsChecked : 0;
+
+      // Frames with motion are kept out of the baseline and the background, so a slow
+      // mover standing in the zone is not absorbed into the model, until the motion has
+      // lasted ABSORB_AFTER_FRAMES
+      const spread = Math.max(MIN_SPREAD, Math.sqrt(state.variance));
+      const ready = state.frames >= WARMUP_FRAMES;
+      const inMotion = ready && diff > state.mean + config.zThreshold * spread;
+      state.motionFrames = inMotion ? state.motionFrames + 1 : 0;
+
+      if (state.motionFrames >= ABSORB_AFTER_FRAMES) {
+        state.background.set(current);
+        state.mean = 0;
+        state.variance = 0;
+        state.frames = -1; // Warms up again from the next frame
+        state.motionFrames = 0;
+      } else if (!inMotion) {
+        // Converge quickly during warm-up, then adapt slowly
+        const rate = Math.max(STATS_RATE, 1 / (state.frames + 1));
+        const delta = diff - state.mean;
+        state.mean += rate * delta;
+        state.variance = (1 - rate) * (state.variance + rate * delta * delta);
+
+        if (config.model === 'background') {
+          const bg = state.background;
+          for (let i = 0; i < bg.length; i++) bg[i] += BACKGROUND_RATE * (current[i] - bg[i]);
+        }
+      }
+
+      state.frames++;
+      // The current frame becomes the previous one; the old buffer is reused next frame
+      state.current = state.prev;
+      state.prev = current;
+
+      const fraction = (half: number) => (halfChecked[half] > 0 ? halfChanged[half] / halfChecked[half] : 0);
+      return {
+        diff,
+        halves: [
+          halfChecked[0] > 0 ? halfScores[0] / halfChecked[0] : 0,
+          halfChecked[1] > 0 ? halfScores[1] / halfChecked[1] : 0,
+        ],
+        changed: pixelsChecked > 0 ? (halfChanged[0] + halfChanged[1]) / pixelsChecked : 0,
+        changedHalves: [fraction(0), fraction(1)],
+        baseline: state.mean,
+        spread,
+        ready,
+      };
+    },
+  };
+}
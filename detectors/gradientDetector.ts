@@ -0,0 +1,20 @@
+import { createDiffDetector } from './diffDetector';
+import { luma } from './lumaDetector';
+
+// Horizontal and vertical brightness gradients (central differences, clamped at the zone edge).
+// An even change in lighting shifts every pixel alike and leaves the gradients as they were,
+// while a body crossing the zone moves its edges. Scaled by 1.5 to roughly match the RGB range.
+export const createGradientDetector = () => createDiffDetector({
+  channels: 2,
+  read: (frame, p, out, o) => {
+    const { width, height } = frame;
+    const x = p % width;
+    const y = Math.floor(p / width);
+    const left = y * width + Math.max(0, x - 1);
+    const right = y * width + Math.min(width - 1, x + 1);
+    const up = Math.max(0, y - 1) * width + x;
+    const down = Math.min(height - 1, y + 1) * width + x;
+    out[o] = (luma(frame, right) - luma(frame, left)) * 1.5;
+    out[o + 1] = (luma(frame, down) - luma(frame, up)) * 1.5;
+  },
+});
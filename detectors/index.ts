@@ -0,0 +1,25 @@
+import { DetectorKind } from '../types';
+import { Detector } from './types';
+import { createRgbDetector } from './rgbDetector';
+import { createLumaDetector } from './lumaDetector';
+import { createGradientDetector } from './gradientDetector';
+
+export const DETECTORS: Record<DetectorKind, { label: string; description: string; create: () => Detector }> = {
+  rgb: {
+    label: 'RGB',
+    description: 'Compares all three colour channels. Most sensitive; also picks up colour noise.',
+    create: createRgbDetector,
+  },
+  luma: {
+    label: 'Luma',
+    description: 'Compares brightness only. Less sensor noise in dim light.',
+    create: createLumaDetector,
+  },
+  gradient: {
+    label: 'Edges',
+    description: 'Compares edge strength. Holds up when clouds or lights change the overall brightness.',
+    create: createGradientDetector,
+  },
+};
+
+export const DETECTOR_KINDS = Object.keys(DETECTORS) as DetectorKind[];
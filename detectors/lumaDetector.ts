@@ -0,0 +1,15 @@
+import { createDiffDetector } from './diffDetector';
+import { DetectorFrame } from './types';
+
+// Rec. 601 brightness of pixel p
+export const luma = ({ data }: DetectorFrame, p: number) =>
+  0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+
+// Brightness only, so colour noise from the sensor doesn't add to the score. Scaled by 3 to
+// match the RGB detector's three-channel sum.
+export const createLumaDetector = () => createDiffDetector({
+  channels: 1,
+  read: (frame, p, out, o) => {
+    out[o] = luma(frame, p) * 3;
+  },
+});
@@ -0,0 +1,11 @@
+import { createDiffDetector } from './diffDetector';
+
+// Sum of the red, green and blue differences: the original detector
+export const createRgbDetector = () => createDiffDetector({
+  channels: 3,
+  read: ({ data }, p, out, o) => {
+    out[o] = data[p * 4];
+    out[o + 1] = data[p * 4 + 1];
+    out[o + 2] = data[p * 4 + 2];
+  },
+});
@@ -0,0 +1,86 @@
+import { DetectionModel, DetectorKind } from '../types';
+import { FrameClock } from '../utils/frameTiming';
+
+// One zone's pixels for one frame, as read from the canvas (RGBA, row-major)
+export interface DetectorFrame {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface DetectorConfig {
+  axis: 'x' | 'y'; // How the zone is split into halves for line crossing
+  model: DetectionModel; // Compare with the previous frame or with a learned background
+  zThreshold: number; // 'background' model: scores this far above the noise baseline count as motion
+  pixelThreshold: number; // A sampled pixel whose score exceeds this counts as changed
+}
+
+// A zone's score for one frame. Scores are on the RGB detector's scale (the sum of three 0-255
+// channel differences), so thresholds carry over between detectors.
+export interface ZoneResult {
+  diff: number;
+  halves: [number, number]; // Left/top half, right/bottom half
+  changed: number; // Fraction of sampled pixels over the pixel threshold (the changed mask's area)
+  changedHalves: [number, number];
+  baseline: number; // Running mean of the diff score while the zone is quiet
+  spread: number; // Running standard deviation of the same
+  ready: boolean; // False until the baseline has warmed up
+}
+
+// Stateful detector for one zone: it keeps its own reference frame and noise statistics
+export interface Detector {
+  configure: (config: DetectorConfig) => void;
+  process: (frame: DetectorFrame) => ZoneResult;
+  reset: () => void;
+}
+
+// Zone rectangle in whole frame pixels
+export interface CropRect {
+  id: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Time spent in the worker per frame, in ms
+export interface WorkerTimings {
+  crop: number; // Drawing the frame, blurring the zones and reading their pixels
+  detect: number;
+}
+
+// Messages between MotionEngine and the detection worker. PROCESS carries zone pixels read on
+// the main thread; PROCESS_FRAME carries the whole frame, which the worker crops itself.
+export type DetectionRequest =
+  | { type: 'RESET' }
+  | {
+    type: 'PROCESS';
+    zones: { id: string; width: number; data: ArrayBuffer }[];
+    detector: DetectorKind;
+    config: DetectorConfig;
+    frameTime: number;
+    frameClock: FrameClock;
+  }
+  | {
+    type: 'PROCESS_FRAME';
+    frame: VideoFrame | ImageBitmap; // Transferred; the worker closes it
+    width: number;
+    height: number;
+    zones: CropRect[];
+    line: Omit<CropRect, 'id'> | null; // Slit-scan line, read before the zones are blurred
+    detector: DetectorKind;
+    config: DetectorConfig;
+    frameTime: number;
+    frameClock: FrameClock;
+  };
+
+export type DetectionResponse =
+  | {
+    type: 'RESULT';
+    results: Record<string, ZoneResult>;
+    frameTime: number;
+    frameClock: FrameClock;
+    timings: WorkerTimings;
+    line?: ArrayBuffer; // RGBA pixels of the requested slit-scan line
+  }
+  | { type: 'UNSUPPORTED' }; // No 2D OffscreenCanvas in this worker; frames must be cropped on the main thread
@@ -0,0 +1,129 @@
+// Reference relay for remote scoreboards: every text message a client sends is forwarded
+// to all other connected clients. No dependencies, no persistence; run it on any machine
+// on the same Wi-Fi network as the sensor and display devices:
+//
+//   node relay/server.mjs [port]
+//
+// Implements just enough of RFC 6455 for browsers: the upgrade handshake, masked client
+// text frames, ping/pong and close. Binary frames are dropped.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+
+const PORT = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_PAYLOAD = 1024 * 1024;
+
+const clients = new Set();
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN + opcode; server frames are never masked
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Parses as many complete frames as the buffer holds; returns the unconsumed remainder
+const readFrames = (buffer, onFrame) => {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_PAYLOAD) throw new Error('Frame too large');
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(cursor, cursor + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    onFrame(opcode, payload);
+    offset = cursor + maskLength + length;
+  }
+  return buffer.subarray(offset);
+};
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`LapTracker relay: ${clients.size} client(s) connected\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+
+  clients.add(socket);
+  console.log(`Client connected from ${req.socket.remoteAddress} (${clients.size} total)`);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+        if (opcode === 0x1) {
+          const frame = encodeFrame(0x1, payload);
+          for (const client of clients) {
+            if (client !== socket && !client.destroyed) client.write(frame);
+          }
+        } else if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, payload.subarray(0, 2)));
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(0xa, payload));
+        }
+      });
+    } catch (e) {
+      console.warn('Dropping client:', e.message);
+      socket.destroy();
+    }
+  });
+
+  const drop = () => {
+    if (clients.delete(socket)) console.log(`Client disconnected (${clients.size} total)`);
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+server.listen(PORT, () => {
+  const addresses = Object.values(networkInterfaces())
+    .flat()
+    .filter((iface) => iface && iface.family === 'IPv4' && !iface.internal)
+    .map((iface) => `ws://${iface.address}:${PORT}`);
+  console.log(`LapTracker relay listening on port ${PORT}`);
+  addresses.forEach((address) => console.log(`  ${address}`));
+});
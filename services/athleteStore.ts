@@ -0,0 +1,25 @@
+import { Athlete } from '../types';
+import { openDatabase, requestToPromise, transactionDone, ATHLETES_STORE } from './db';
+
+// Alphabetical, as shown in the picker
+export async function listAthletes(): Promise<Athlete[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(ATHLETES_STORE, 'readonly');
+  const athletes = await requestToPromise<Athlete[]>(tx.objectStore(ATHLETES_STORE).getAll());
+  return athletes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveAthlete(athlete: Athlete): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(ATHLETES_STORE, 'readwrite');
+  tx.objectStore(ATHLETES_STORE).put(athlete);
+  await transactionDone(tx);
+}
+
+// Sessions keep their athleteId; History shows them as unattributed once the athlete is gone
+export async function deleteAthlete(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(ATHLETES_STORE, 'readwrite');
+  tx.objectStore(ATHLETES_STORE).delete(id);
+  await transactionDone(tx);
+}
@@ -0,0 +1,116 @@
+import { ToneStyle } from '../types';
+
+// WebAudio tones and SpeechSynthesis announcements. The AudioContext is created on
+// first use; browsers keep it suspended until a user gesture, see unlockAudio().
+let audioContext: AudioContext | null = null;
+
+const getContext = () => {
+  if (!audioContext) {
+    const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!AudioContextClass) return null;
+    audioContext = new AudioContextClass();
+  }
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {
+      // Still locked; the next gesture will try again
+    });
+  }
+  return audioContext;
+};
+
+// Call from a click handler so cues played later from effects are allowed to sound
+export function unlockAudio() {
+  getContext();
+}
+
+export type AudioCue = 'lap' | 'faster' | 'slower' | 'countdown' | 'countdownFinal' | 'finish' | 'ready' | 'set' | 'go' | 'falseStart';
+
+interface Note {
+  frequency: number;
+  at: number; // Offset from the cue start (s)
+  duration?: number; // Defaults to the tone style's length (s)
+}
+
+const TONE_SHAPES: Record<ToneStyle, { type: OscillatorType; sweep: number; duration: number }> = {
+  beep: { type: 'sine', sweep: 1, duration: 0.15 },
+  chirp: { type: 'triangle', sweep: 1.6, duration: 0.12 },
+  click: { type: 'square', sweep: 1, duration: 0.03 },
+};
+
+// Faster rises, slower falls, so the direction is audible without looking
+const CUE_NOTES: Record<AudioCue, Note[]> = {
+  lap: [{ frequency: 880, at: 0 }],
+  faster: [{ frequency: 1175, at: 0 }, { frequency: 1568, at: 0.12 }],
+  slower: [{ frequency: 523, at: 0 }, { frequency: 392, at: 0.12 }],
+  countdown: [{ frequency: 660, at: 0, duration: 0.1 }],
+  countdownFinal: [{ frequency: 1320, at: 0, duration: 0.35 }],
+  finish: [
+    { frequency: 523, at: 0, duration: 0.14 },
+    { frequency: 659, at: 0.15, duration: 0.14 },
+    { frequency: 784, at: 0.3, duration: 0.14 },
+    { frequency: 1047, at: 0.45, duration: 0.6 },
+  ],
+  ready: [{ frequency: 660, at: 0, duration: 0.2 }],
+  set: [{ frequency: 660, at: 0, duration: 0.2 }, { frequency: 660, at: 0.3, duration: 0.2 }],
+  go: [{ frequency: 1320, at: 0, duration: 0.5 }],
+  falseStart: [{ frequency: 220, at: 0, duration: 0.25 }, { frequency: 220, at: 0.35, duration: 0.25 }],
+};
+
+export function playCue(cue: AudioCue, style: ToneStyle, volume: number) {
+  const ctx = getContext();
+  if (!ctx || volume <= 0) return;
+
+  const shape = TONE_SHAPES[style];
+  const start = ctx.currentTime + 0.01;
+  const peak = (volume / 100) * 0.5;
+
+  CUE_NOTES[cue].forEach(({ frequency, at, duration = shape.duration }) => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const t0 = start + at;
+
+    osc.type = shape.type;
+    osc.frequency.setValueAtTime(frequency, t0);
+    if (shape.sweep !== 1) osc.frequency.exponentialRampToValueAtTime(frequency * shape.sweep, t0 + duration);
+
+    // Short attack and release avoid clicks at the note edges
+    gain.gain.setValueAtTime(0, t0);
+    gain.gain.linearRampToValueAtTime(peak, t0 + 0.005);
+    gain.gain.setValueAtTime(peak, t0 + Math.max(0.005, duration - 0.02));
+    gain.gain.linearRampToValueAtTime(0, t0 + duration);
+
+    osc.connect(gain).connect(ctx.destination);
+    osc.start(t0);
+    osc.stop(t0 + duration + 0.01);
+  });
+}
+
+export function speak(text: string, volume: number) {
+  if (!('speechSynthesis' in window) || volume <= 0) return;
+  // A new lap supersedes an announcement that is still queued
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.volume = volume / 100;
+  utterance.rate = 1.1;
+  window.speechSynthesis.speak(utterance);
+}
+
+// Difference from the running average in whole tenths; negative is faster
+export const getPaceTenths = (duration: number, average: number) =>
+  average > 0 ? Math.round((duration - average) / 100) : 0;
+
+const TENTHS_WORDS = ['', 'one tenth', 'two tenths', 'three tenths', 'four tenths', 'five tenths', 'six tenths', 'seven tenths', 'eight tenths', 'nine tenths'];
+
+// e.g. "lap 4, 32.15, two tenths faster"
+export function formatLapAnnouncement(lapNumber: number, duration: number, average: number) {
+  const parts = [`lap ${lapNumber}`, (duration / 1000).toFixed(2)];
+  if (average > 0) {
+    const tenths = getPaceTenths(duration, average);
+    const direction = tenths < 0 ? 'faster' : 'slower';
+    const magnitude = Math.abs(tenths);
+    if (magnitude === 0) parts.push('on pace');
+    else if (magnitude < 10) parts.push(`${TENTHS_WORDS[magnitude]} ${direction}`);
+    else parts.push(`${(magnitude / 10).toFixed(1)} seconds ${direction}`);
+  }
+  return parts.join(', ');
+}
@@ -0,0 +1,45 @@
+import { CameraSettings } from '../types';
+import { DEFAULT_CAMERA } from '../constants';
+
+// Camera settings are kept per device in localStorage, with the device used last, so
+// each camera comes back with its own resolution, frame rate and locks.
+const STORAGE_KEY_CAMERA = 'laptrack-camera';
+
+type CameraPrefs = Omit<CameraSettings, 'deviceId'>;
+
+interface StoredCameraPrefs {
+  lastDeviceId: string | null;
+  devices: Record<string, CameraPrefs>;
+}
+
+function readPrefs(): StoredCameraPrefs {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_CAMERA);
+    if (saved) {
+      const parsed = JSON.parse(saved) as StoredCameraPrefs;
+      if (parsed && typeof parsed.devices === 'object') return parsed;
+    }
+  } catch {
+    // Unreadable prefs fall back to the defaults
+  }
+  return { lastDeviceId: null, devices: {} };
+}
+
+// Settings of the device, or the defaults for one not seen before
+export function loadCameraSettings(deviceId: string | null = readPrefs().lastDeviceId): CameraSettings {
+  const saved = deviceId ? readPrefs().devices[deviceId] : undefined;
+  return { ...DEFAULT_CAMERA, ...saved, deviceId };
+}
+
+// deviceId is the device the settings apply to; the browser's pick when settings.deviceId is null
+export function saveCameraSettings(deviceId: string | null, settings: CameraSettings) {
+  try {
+    const prefs = readPrefs();
+    const { deviceId: _, ...devicePrefs } = settings;
+    if (deviceId) prefs.devices[deviceId] = devicePrefs;
+    prefs.lastDeviceId = settings.deviceId;
+    localStorage.setItem(STORAGE_KEY_CAMERA, JSON.stringify(prefs));
+  } catch (e) {
+    console.warn('Failed to save camera settings');
+  }
+}
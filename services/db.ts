@@ -0,0 +1,61 @@
+// Thin promise wrapper around the app's IndexedDB database
+const DB_NAME = 'laptrack';
+const DB_VERSION = 4;
+
+export const SESSIONS_STORE = 'sessions';
+export const ATHLETES_STORE = 'athletes';
+export const SNAPSHOTS_STORE = 'snapshots';
+export const SLIT_SCANS_STORE = 'slitScans';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    // Each case upgrades from the previous schema version, so they intentionally fall through
+    request.onupgradeneeded = (e) => {
+      const db = request.result;
+      switch (e.oldVersion) {
+        case 0: {
+          const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          sessions.createIndex('startedAt', 'startedAt');
+        }
+        case 1: {
+          db.createObjectStore(ATHLETES_STORE, { keyPath: 'id' });
+        }
+        case 2: {
+          const snapshots = db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'lapId' });
+          snapshots.createIndex('sessionId', 'sessionId');
+        }
+        case 3: {
+          const slitScans = db.createObjectStore(SLIT_SCANS_STORE, { keyPath: 'id' });
+          slitScans.createIndex('sessionId', 'sessionId');
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
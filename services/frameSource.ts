@@ -0,0 +1,122 @@
+import { CameraCapabilities, CameraSettings } from '../types';
+
+// Frame sources for MotionEngine: the live camera or a video file. Detection timestamps come
+// from the source, so a replayed clip produces the same lap times at any playback speed.
+
+// Handle MotionEngine gives the app for the source it is showing
+export interface FrameSourceControl {
+  video: HTMLVideoElement | null;
+  stream: MediaStream | null; // Live camera only
+  now: () => number; // Timestamp of the frame on screen: wall clock for the camera, media time for files
+  rewind: () => void; // Files: back to the start and playing, so each replay covers the whole clip
+}
+
+const openCameraStream = (camera: CameraSettings, deviceId: string | null) =>
+  navigator.mediaDevices.getUserMedia({
+    video: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }),
+      width: { ideal: camera.width },
+      height: { ideal: camera.height },
+      frameRate: { ideal: camera.frameRate },
+    },
+    audio: false
+  });
+
+// Opens the chosen camera. If it is gone (unplugged, or its id changed), the browser's pick
+// opens instead, so a missing device can't lock the user out; the stream's own deviceId
+// then differs from camera.deviceId.
+export async function openCamera(camera: CameraSettings): Promise<MediaStream> {
+  try {
+    return await openCameraStream(camera, camera.deviceId);
+  } catch (e) {
+    const name = (e as { name?: string } | null)?.name;
+    if (!camera.deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) throw e;
+    console.warn('Saved camera unavailable, opening another:', e);
+    return openCameraStream(camera, null);
+  }
+}
+
+// Image Capture extensions to the track capabilities; not in the DOM typings
+interface ImageCaptureCapabilities extends MediaTrackCapabilities {
+  exposureMode?: string[];
+  focusMode?: string[];
+  whiteBalanceMode?: string[];
+  torch?: boolean;
+}
+
+const capabilitiesOf = (track: MediaStreamTrack): ImageCaptureCapabilities =>
+  typeof track.getCapabilities === 'function' ? track.getCapabilities() : {};
+
+export function readCameraCapabilities(track: MediaStreamTrack): CameraCapabilities {
+  const caps = capabilitiesOf(track);
+  const canLock = (modes?: string[]) => !!modes?.includes('continuous') && (modes.includes('manual') || modes.includes('single-shot'));
+  return {
+    maxWidth: caps.width?.max ?? 0,
+    maxHeight: caps.height?.max ?? 0,
+    maxFrameRate: caps.frameRate?.max ?? 0,
+    exposure: canLock(caps.exposureMode),
+    focus: canLock(caps.focusMode),
+    whiteBalance: canLock(caps.whiteBalanceMode),
+    torch: !!caps.torch,
+  };
+}
+
+// Locks and the torch go on the running track, so they change without reopening the camera.
+// Unsupported controls are left out; a device that rejects one keeps the others.
+export async function applyCameraControls(track: MediaStreamTrack, camera: CameraSettings): Promise<void> {
+  const caps = capabilitiesOf(track);
+  const lockMode = (modes: string[] | undefined, locked: boolean) =>
+    locked ? (modes?.includes('manual') ? 'manual' : 'single-shot') : 'continuous';
+  const constraints: Record<string, string | boolean>[] = [];
+  if (caps.exposureMode) constraints.push({ exposureMode: lockMode(caps.exposureMode, camera.lockExposure) });
+  if (caps.focusMode) constraints.push({ focusMode: lockMode(caps.focusMode, camera.lockFocus) });
+  if (caps.whiteBalanceMode) constraints.push({ whiteBalanceMode: lockMode(caps.whiteBalanceMode, camera.lockWhiteBalance) });
+  if (caps.torch) constraints.push({ torch: camera.torch });
+
+  for (const constraint of constraints) {
+    try {
+      await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+    } catch (e) {
+      console.warn('Camera control not applied:', constraint, e);
+    }
+  }
+}
+
+// Video inputs; labels are empty until camera permission has been granted
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+}
+
+export interface ClipRecording {
+  stop: () => Promise<File>;
+}
+
+const CLIP_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'];
+
+export const canRecordClips = () => typeof MediaRecorder !== 'undefined';
+
+// Records the camera stream so the clip can be replayed (and re-analysed) later
+export function startClipRecording(stream: MediaStream): ClipRecording {
+  const mimeType = CLIP_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = new Date();
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () => new Promise<File>((resolve, reject) => {
+      recorder.onstop = () => {
+        const type = recorder.mimeType || 'video/webm';
+        const extension = type.includes('mp4') ? 'mp4' : 'webm';
+        const stamp = startedAt.toTimeString().slice(0, 8).replace(/:/g, '-');
+        resolve(new File(chunks, `laptrack-clip-${stamp}.${extension}`, { type, lastModified: startedAt.getTime() }));
+      };
+      recorder.onerror = () => reject(new Error('Recording failed'));
+      recorder.stop();
+    }),
+  };
+}
@@ -0,0 +1,53 @@
+import { AppSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { SETTINGS_VERSION, isDeviceSetting, migrateSettings } from './settingsStore';
+
+// A preset travels as a URL-safe string: base64url of { v: schema version, n: name, s: settings }.
+// Only settings that differ from the defaults are included, and never device settings, so a
+// typical preset fits in a QR code. Links carry it as `#preset=<code>`.
+const HASH_PREFIX = '#preset=';
+
+export interface SharedPreset {
+  name: string;
+  settings: AppSettings;
+}
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (code: string) => {
+  const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export function encodePreset(name: string, settings: AppSettings): string {
+  const changed = Object.fromEntries((Object.keys(settings) as (keyof AppSettings)[])
+    .filter(key => !isDeviceSetting(key) && JSON.stringify(settings[key]) !== JSON.stringify(DEFAULT_SETTINGS[key]))
+    .map(key => [key, settings[key]]));
+  return toBase64Url(JSON.stringify({ v: SETTINGS_VERSION, n: name, s: changed }));
+}
+
+export const getPresetLink = (code: string) =>
+  `${window.location.origin}${window.location.pathname}${HASH_PREFIX}${code}`;
+
+// Accepts a preset link or the bare code; null for anything else, or for a preset saved by a
+// newer version of the app
+export function decodePreset(text: string): SharedPreset | null {
+  const trimmed = text.trim();
+  const index = trimmed.indexOf(HASH_PREFIX);
+  const code = index === -1 ? trimmed : trimmed.slice(index + HASH_PREFIX.length);
+  try {
+    const payload = JSON.parse(fromBase64Url(code));
+    if (typeof payload?.v !== 'number' || typeof payload.n !== 'string' || typeof payload.s !== 'object' || payload.s === null) return null;
+    const settings = migrateSettings(payload.s, payload.v);
+    return settings ? { name: payload.n, settings } : null;
+  } catch {
+    return null;
+  }
+}
+
+export const readPresetHash = (hash: string) =>
+  hash.startsWith(HASH_PREFIX) ? decodePreset(hash) : null;
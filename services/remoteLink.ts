@@ -0,0 +1,145 @@
+import { Lap } from '../types';
+import { clockNow } from '../utils/frameTiming';
+
+// Sensor -> scoreboard link. The sensor device publishes lap and session events; remote
+// displays subscribe. Messages go over a WebSocket relay (see relay/server.mjs) when a
+// relay URL is set, and always over a BroadcastChannel for tabs in the same browser.
+const BROADCAST_CHANNEL_NAME = 'laptrack-remote';
+const RECONNECT_DELAY_MS = 2000;
+
+export interface RemoteSnapshot {
+  laps: Lap[];
+  isMonitoring: boolean;
+  targetLaps: number;
+  targetDuration: number;
+}
+
+export type RemoteEvent =
+  | { type: 'hello' } // Sent by a display when it connects; the sensor answers with a snapshot
+  | { type: 'snapshot'; snapshot: RemoteSnapshot }
+  | { type: 'lap'; lap: Lap }
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'reset' }
+  | { type: 'targets'; targetLaps: number; targetDuration: number }
+  // Two-camera timing: the finish gate pings, the start gate answers with its clock readings
+  | { type: 'syncPing'; id: string }
+  | { type: 'syncPong'; id: string; pingSentAt: number; pingReceivedAt: number }
+  | { type: 'gateStart'; id: string; at: number }; // Start gate crossing, on the start gate's clock
+
+// Every message carries the sender's clock so receivers can estimate the offset, and the id
+// of the channel that sent it, since sensors and gates share the channel
+export type RemoteMessage = RemoteEvent & { sentAt: number; senderId: string };
+
+// Events that drive a scoreboard, as opposed to gate traffic
+export const isScoreboardEvent = (event: RemoteEvent) =>
+  event.type === 'snapshot' || event.type === 'lap' || event.type === 'start' || event.type === 'stop'
+  || event.type === 'reset' || event.type === 'targets';
+
+export type RemoteStatus = 'connecting' | 'open' | 'closed';
+
+export interface RemoteChannel {
+  send: (event: RemoteEvent) => void;
+  close: () => void;
+}
+
+const isRemoteMessage = (value: unknown): value is RemoteMessage =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as RemoteMessage).type === 'string' && typeof (value as RemoteMessage).sentAt === 'number' &&
+  typeof (value as RemoteMessage).senderId === 'string';
+
+export function openRemoteChannel(
+  relayUrl: string,
+  onMessage: (message: RemoteMessage) => void,
+  onStatus?: (status: RemoteStatus) => void,
+): RemoteChannel {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: number | null = null;
+  let closed = false;
+  const senderId = crypto.randomUUID();
+
+  const broadcast = 'BroadcastChannel' in window ? new BroadcastChannel(BROADCAST_CHANNEL_NAME) : null;
+  if (broadcast) {
+    broadcast.onmessage = (e) => {
+      if (isRemoteMessage(e.data)) onMessage(e.data);
+    };
+  }
+
+  const connect = () => {
+    if (!relayUrl || closed) return;
+    onStatus?.('connecting');
+    try {
+      socket = new WebSocket(relayUrl);
+    } catch (e) {
+      console.warn('Invalid relay URL:', e);
+      onStatus?.('closed');
+      return;
+    }
+
+    socket.onopen = () => onStatus?.('open');
+    socket.onmessage = (e) => {
+      try {
+        const data: unknown = JSON.parse(e.data);
+        if (isRemoteMessage(data)) onMessage(data);
+      } catch {
+        // Not one of ours; the relay forwards whatever its clients send
+      }
+    };
+    // Keep retrying; relays on a local network come and go with the laptop running them
+    socket.onclose = () => {
+      socket = null;
+      onStatus?.('closed');
+      if (!closed) reconnectTimer = window.setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+
+  connect();
+  // Reported after returning so callers can already use the channel from the status callback
+  if (!relayUrl) queueMicrotask(() => { if (!closed) onStatus?.(broadcast ? 'open' : 'closed'); });
+
+  return {
+    send: (event) => {
+      const message: RemoteMessage = { ...event, sentAt: clockNow(), senderId };
+      broadcast?.postMessage(message);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    },
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+      broadcast?.close();
+    },
+  };
+}
+
+// Remote displays apply events to this state, starting from an empty session
+export const EMPTY_REMOTE_SNAPSHOT: RemoteSnapshot = { laps: [], isMonitoring: false, targetLaps: 0, targetDuration: 0 };
+
+export function applyRemoteEvent(state: RemoteSnapshot, event: RemoteEvent): RemoteSnapshot {
+  switch (event.type) {
+    case 'snapshot':
+      return event.snapshot;
+    case 'lap':
+      // Redelivered laps (both transports, reconnects) are ignored
+      return state.laps.some(l => l.id === event.lap.id) ? state : { ...state, laps: [...state.laps, event.lap] };
+    case 'start':
+      return { ...state, isMonitoring: true };
+    case 'stop':
+      return { ...state, isMonitoring: false };
+    case 'reset':
+      return { ...state, laps: [] };
+    case 'targets':
+      return { ...state, targetLaps: event.targetLaps, targetDuration: event.targetDuration };
+    default:
+      return state;
+  }
+}
+
+// `#display?remote` listens on the BroadcastChannel only; `#display?remote=ws://host:port`
+// also connects to a relay. Returns null when the display is not in remote mode.
+export function parseRemoteHash(hash: string): string | null {
+  const [path, query = ''] = hash.replace(/^#/, '').split('?');
+  if (path.toLowerCase() !== 'display') return null;
+  const params = new URLSearchParams(query);
+  return params.has('remote') ? params.get('remote') ?? '' : null;
+}
@@ -0,0 +1,58 @@
+import { IntervalWorkout, Lap, LapEditLog, LaneZone, OfflineGap, StartRecord, WorkoutPhase } from '../types';
+import { clockNow } from '../utils/frameTiming';
+
+// The in-progress session is mirrored to localStorage (synchronous, so it survives
+// the tab being killed between writes) and offered for resume on the next launch.
+const STORAGE_KEY_CHECKPOINT = 'laptrack-active-session';
+const CHECKPOINT_VERSION = 1;
+
+export interface SessionCheckpoint {
+  version: number;
+  sessionId: string;
+  sessionName: string;
+  athleteId?: string;
+  laps: Lap[];
+  lapEdits?: LapEditLog;
+  laneLaps?: Record<string, Lap[]>;
+  lanes?: LaneZone[]; // Lane setup for multi-lane sessions, restored with the laps
+  workout?: IntervalWorkout; // Interval workout and the phase it was in
+  workoutPhase?: WorkoutPhase;
+  start?: StartRecord; // Ready - Set - Go outcome; the reaction time is derived again on restore
+  lastActivity: number;
+  isMonitoring: boolean;
+  targetLaps: number;
+  targetDuration: number;
+  offlineGaps: OfflineGap[];
+  savedAt: number; // Last write; approximates when detection went offline
+}
+
+export function writeCheckpoint(checkpoint: Omit<SessionCheckpoint, 'version' | 'savedAt'>) {
+  try {
+    const data: SessionCheckpoint = { ...checkpoint, version: CHECKPOINT_VERSION, savedAt: clockNow() };
+    localStorage.setItem(STORAGE_KEY_CHECKPOINT, JSON.stringify(data));
+  } catch (e) {
+    console.warn('Failed to write session checkpoint');
+  }
+}
+
+export function readCheckpoint(): SessionCheckpoint | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY_CHECKPOINT);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved) as SessionCheckpoint;
+    if (parsed.version !== CHECKPOINT_VERSION || !Array.isArray(parsed.laps) || parsed.laps.length === 0) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export function clearCheckpoint() {
+  try {
+    localStorage.removeItem(STORAGE_KEY_CHECKPOINT);
+  } catch {
+    // Storage unavailable; nothing to clear
+  }
+}
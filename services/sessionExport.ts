@@ -0,0 +1,209 @@
+import { AppSettings, Lap, LapEdit, LapEditKind, LapEditLog, LapSource, Session, SessionEndReason, StartRecord } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { getCompletedLaps } from '../utils/lapStats';
+import { SETTINGS_VERSION, migrateSettings } from './settingsStore';
+
+// Versioned envelope for JSON exports; bump the version when the session shape changes.
+// Version 2 added lane laps, start records and lap edits to the session, and checkpoint
+// splits, sets, uncertainty and source to laps; version 1 files simply lack them.
+export const SESSION_EXPORT_FORMAT = 'laptrack-session';
+export const SESSION_EXPORT_VERSION = 2;
+
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: Session;
+}
+
+export type ExportFormat = 'csv' | 'json';
+
+const END_REASONS: SessionEndReason[] = ['targetLaps', 'targetDuration', 'workoutComplete', 'manual', 'interrupted'];
+const LAP_SOURCES: LapSource[] = ['camera', 'manual'];
+const LAP_EDIT_KINDS: LapEditKind[] = ['delete', 'merge', 'insert', 'split'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Athlete names are free text
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Lap 0 is the start mark; cumulative time is measured from it. Lane sessions get one row
+// per lane lap, with the lane and its athlete, timed from the same start mark.
+export function sessionToCsv(session: Session): string {
+  const start = session.laps[0]?.timestamp ?? 0;
+  const lapCells = (lap: Lap, index: number) => [
+    index,
+    new Date(lap.timestamp).toISOString(),
+    (lap.duration / 1000).toFixed(3),
+    ((lap.timestamp - start) / 1000).toFixed(3),
+  ];
+
+  if (session.laneLaps) {
+    const { laneLaps } = session;
+    const rows = session.settings.lanes.flatMap((lane, laneIndex) =>
+      getCompletedLaps(laneLaps[lane.id] ?? []).map((lap, index) =>
+        [lane.id, csvField(lane.athleteName || `Lane ${laneIndex + 1}`), ...lapCells(lap, index + 1)].join(',')));
+    return ['lane,athlete,lap,timestamp,duration_s,cumulative_s', ...rows].join('\r\n') + '\r\n';
+  }
+
+  const rows = session.laps.map((lap, index) => lapCells(lap, index).join(','));
+  return ['lap,timestamp,duration_s,cumulative_s', ...rows].join('\r\n') + '\r\n';
+}
+
+export function sessionToJson(session: Session): string {
+  const data: SessionExport = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Optional lap fields are kept only when well-formed; a bad one is dropped rather than
+// failing the whole import
+function parseLap(lap: Record<string, unknown> & Pick<Lap, 'id' | 'timestamp' | 'duration'>): Lap {
+  const { id, timestamp, duration, splits, set, uncertainty, edited, source } = lap;
+  return {
+    id,
+    timestamp,
+    duration,
+    ...(Array.isArray(splits) && splits.every(split => split === null || isFiniteNumber(split)) && { splits: splits as (number | null)[] }),
+    ...(Number.isInteger(set) && (set as number) >= 0 && { set: set as number }),
+    ...(isFiniteNumber(uncertainty) && uncertainty >= 0 && { uncertainty }),
+    ...(edited === true && { edited }),
+    ...(LAP_SOURCES.includes(source as LapSource) && { source: source as LapSource }),
+  };
+}
+
+// An ordered lap list; `label` names its laps in error messages
+function parseLaps(laps: unknown[], label: string): Lap[] {
+  return laps.map((lap, index) => {
+    if (!isRecord(lap) || typeof lap.id !== 'string' || !isFiniteNumber(lap.timestamp) || !isFiniteNumber(lap.duration) || lap.duration < 0) {
+      throw new Error(`${label} ${index} is malformed.`);
+    }
+    if (index > 0 && lap.timestamp < (laps[index - 1] as Lap).timestamp) {
+      throw new Error(`${label} ${index} is out of order.`);
+    }
+    return parseLap(lap as Record<string, unknown> & Pick<Lap, 'id' | 'timestamp' | 'duration'>);
+  });
+}
+
+function parseLaneLaps(laneLaps: Record<string, unknown>): Record<string, Lap[]> {
+  return Object.fromEntries(Object.entries(laneLaps).map(([laneId, laps], index) => {
+    if (!Array.isArray(laps)) throw new Error(`Lane ${index + 1} laps are malformed.`);
+    return [laneId, parseLaps(laps, `Lane ${index + 1} lap`)];
+  }));
+}
+
+const parseStart = (start: Record<string, unknown>): StartRecord | null => (isFiniteNumber(start.goAt) ? {
+  goAt: start.goAt,
+  falseStart: start.falseStart === true,
+  ...(isFiniteNumber(start.reactionTime) && { reactionTime: start.reactionTime }),
+} : null);
+
+// Edits that don't parse are dropped; the laps as detected are validated like the main list
+function parseLapEdits(log: Record<string, unknown>): LapEditLog {
+  if (!Array.isArray(log.original)) throw new Error('Lap edit log is malformed.');
+  const edits = Array.isArray(log.edits) ? log.edits : [];
+  return {
+    original: parseLaps(log.original, 'Detected lap'),
+    edits: edits.filter((edit): edit is LapEdit =>
+      isRecord(edit) && LAP_EDIT_KINDS.includes(edit.kind as LapEditKind) && typeof edit.lapId === 'string'
+      && isFiniteNumber(edit.timestamp) && isFiniteNumber(edit.editedAt)),
+  };
+}
+
+// Validates an exported document and returns the session it holds. Throws with a
+// user-facing message when the file is not a LapTracker export or is malformed.
+export function parseSessionJson(text: string): Session {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+
+  if (!isRecord(data) || data.format !== SESSION_EXPORT_FORMAT) {
+    throw new Error('File is not a LapTracker session export.');
+  }
+  if (!isFiniteNumber(data.version) || data.version > SESSION_EXPORT_VERSION) {
+    throw new Error('Session export was made by a newer version of LapTracker.');
+  }
+
+  const session = data.session;
+  if (!isRecord(session)) {
+    throw new Error('Session export has no session data.');
+  }
+
+  if (!Array.isArray(session.laps) || session.laps.length === 0) {
+    throw new Error('Session export contains no laps.');
+  }
+  const validLaps = parseLaps(session.laps, 'Lap');
+  // Unknown, missing or malformed settings fall back to defaults so older exports still open
+  const settings: AppSettings = (isRecord(session.settings) && migrateSettings(session.settings, SETTINGS_VERSION)) || DEFAULT_SETTINGS;
+  const startedAt = isFiniteNumber(session.startedAt) ? session.startedAt : validLaps[0].timestamp;
+  const start = isRecord(session.start) ? parseStart(session.start) : null;
+
+  return {
+    id: typeof session.id === 'string' ? session.id : crypto.randomUUID(),
+    name: typeof session.name === 'string' && session.name.trim() ? session.name : 'Imported session',
+    ...(typeof session.athleteId === 'string' && { athleteId: session.athleteId }),
+    laps: validLaps,
+    settings,
+    startedAt,
+    endedAt: isFiniteNumber(session.endedAt) ? session.endedAt : validLaps[validLaps.length - 1].timestamp,
+    endReason: END_REASONS.includes(session.endReason as SessionEndReason) ? session.endReason as SessionEndReason : 'manual',
+    offlineGaps: Array.isArray(session.offlineGaps)
+      ? session.offlineGaps.filter((gap): gap is { from: number; to: number } =>
+        isRecord(gap) && isFiniteNumber(gap.from) && isFiniteNumber(gap.to))
+      : [],
+    ...(isRecord(session.laneLaps) && { laneLaps: parseLaneLaps(session.laneLaps) }),
+    ...(start && { start }),
+    ...(isRecord(session.lapEdits) && { lapEdits: parseLapEdits(session.lapEdits) }),
+  };
+}
+
+const toExportFile = (session: Session, format: ExportFormat) => {
+  const baseName = `laptrack-${session.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || session.id}`;
+  return format === 'csv'
+    ? new File([sessionToCsv(session)], `${baseName}.csv`, { type: 'text/csv' })
+    : new File([sessionToJson(session)], `${baseName}.json`, { type: 'application/json' });
+};
+
+export function downloadSession(session: Session, format: ExportFormat) {
+  const file = toExportFile(session, format);
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const canShareFiles = () =>
+  typeof navigator.canShare === 'function' &&
+  navigator.canShare({ files: [new File([''], 'probe.csv', { type: 'text/csv' })] });
+
+// Shares both the CSV and the JSON export through the Web Share API
+export async function shareSession(session: Session) {
+  const files = [toExportFile(session, 'csv'), toExportFile(session, 'json')];
+  try {
+    await navigator.share({ title: session.name, files });
+  } catch (e) {
+    // Dismissing the share sheet is not an error
+    if (e instanceof DOMException && e.name === 'AbortError') return;
+    throw e;
+  }
+}
+
+export async function importSessionFile(file: File): Promise<Session> {
+  return parseSessionJson(await file.text());
+}
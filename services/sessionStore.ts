@@ -0,0 +1,56 @@
+import { Session } from '../types';
+import { MAX_HISTORY_SESSIONS } from '../constants';
+import { openDatabase, requestToPromise, transactionDone, SESSIONS_STORE, SNAPSHOTS_STORE, SLIT_SCANS_STORE } from './db';
+import { deleteSessionSnapshots } from './snapshotStore';
+import { deleteSessionSlitScans } from './slitScanStore';
+
+// Newest sessions first
+export async function listSessions(): Promise<Session[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  const sessions = await requestToPromise<Session[]>(tx.objectStore(SESSIONS_STORE).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string): Promise<Session | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, 'readonly');
+  return requestToPromise<Session | undefined>(tx.objectStore(SESSIONS_STORE).get(id));
+}
+
+// Inserts or replaces the session, then prunes the oldest entries (and their photo-finish
+// snapshots and slit-scan strips) beyond MAX_HISTORY_SESSIONS
+export async function saveSession(session: Session): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SNAPSHOTS_STORE, SLIT_SCANS_STORE], 'readwrite');
+  const store = tx.objectStore(SESSIONS_STORE);
+  store.put(session);
+
+  const keys = await requestToPromise(store.index('startedAt').getAllKeys());
+  const excess = keys.length - MAX_HISTORY_SESSIONS;
+  for (let i = 0; i < excess; i++) {
+    store.delete(keys[i]);
+    await deleteSessionSnapshots(tx.objectStore(SNAPSHOTS_STORE), keys[i]);
+    await deleteSessionSlitScans(tx.objectStore(SLIT_SCANS_STORE), keys[i]);
+  }
+
+  await transactionDone(tx);
+}
+
+export async function renameSession(id: string, name: string): Promise<void> {
+  const session = await getSession(id);
+  if (!session) return;
+  await saveSession({ ...session, name });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([SESSIONS_STORE, SNAPSHOTS_STORE, SLIT_SCANS_STORE], 'readwrite');
+  tx.objectStore(SESSIONS_STORE).delete(id);
+  await deleteSessionSnapshots(tx.objectStore(SNAPSHOTS_STORE), id);
+  await deleteSessionSlitScans(tx.objectStore(SLIT_SCANS_STORE), id);
+  await transactionDone(tx);
+}
+
+export const defaultSessionName = (startedAt: number) =>
+  new Date(startedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { SETTINGS_VERSION, migrateSettings } from './settingsStore';
+import { DEFAULT_SETTINGS } from '../constants';
+
+describe('migrateSettings', () => {
+  it('fills in missing settings from the defaults', () => {
+    expect(migrateSettings({ sensitivity: 40 }, SETTINGS_VERSION)).toEqual({ ...DEFAULT_SETTINGS, sensitivity: 40 });
+  });
+
+  it('refuses settings from a newer version', () => {
+    expect(migrateSettings({}, SETTINGS_VERSION + 1)).toBeNull();
+  });
+
+  it('drops values that do not match the type of their default', () => {
+    const settings = migrateSettings({
+      lanes: 5,
+      cooldown: Infinity,
+      detector: 'sonar',
+      workout: { sets: 3 },
+      audio: { volume: '70', toneStyle: 'chirp' },
+      unknown: true,
+    }, SETTINGS_VERSION);
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, audio: { ...DEFAULT_SETTINGS.audio, toneStyle: 'chirp' } });
+  });
+
+  it('keeps the valid items of a list', () => {
+    const zone = { id: 'a', x: 50, y: 50, width: 10, height: 10 };
+    const settings = migrateSettings({ checkpoints: [zone, { id: 'b' }], shortcuts: { lap: ['l', 7] } }, SETTINGS_VERSION);
+    expect(settings?.checkpoints).toEqual([zone]);
+    expect(settings?.shortcuts.lap).toEqual(['l']);
+  });
+});
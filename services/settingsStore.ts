@@ -0,0 +1,128 @@
+import { AppSettings, CrossingDirection, DetectionModel, DetectorKind, GateRole, SettingsPreset, StartMode, ToneStyle } from '../types';
+import { DEFAULT_SETTINGS, DEVICE_SETTING_KEYS } from '../constants';
+
+// Settings and named presets are kept in localStorage with the schema version they were
+// written with. On read they are migrated up to the current version, then missing keys
+// (settings added since) are filled in from the defaults.
+const STORAGE_KEY_SETTINGS = 'laptrack-settings';
+const STORAGE_KEY_PRESETS = 'laptrack-presets';
+
+export const SETTINGS_VERSION = 1;
+
+type RawSettings = Record<string, unknown>;
+
+// MIGRATIONS[n] turns version n settings into version n + 1. Version 1 is the first stored
+// version; when the shape of the settings changes, bump SETTINGS_VERSION and add the step here.
+const MIGRATIONS: Record<number, (settings: RawSettings) => RawSettings> = {};
+
+const isObject = (value: unknown): value is RawSettings =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Values of the settings that are unions of strings (audio's toneStyle included)
+const OPTIONS: Record<string, readonly string[]> = {
+  crossingDirection: ['any', 'leftToRight', 'rightToLeft', 'topToBottom', 'bottomToTop'] satisfies CrossingDirection[],
+  detectionModel: ['frameDiff', 'background'] satisfies DetectionModel[],
+  detector: ['rgb', 'luma', 'gradient'] satisfies DetectorKind[],
+  startMode: ['immediate', 'readySetGo'] satisfies StartMode[],
+  gateRole: ['off', 'start', 'finish'] satisfies GateRole[],
+  toneStyle: ['beep', 'chirp', 'click'] satisfies ToneStyle[],
+};
+
+const isZone = (value: unknown): value is RawSettings =>
+  isObject(value) && typeof value.id === 'string' && ['x', 'y', 'width', 'height'].every(key => isFiniteNumber(value[key]));
+
+// Shapes the defaults don't show: the items of lists that default to empty, and the
+// workout, which defaults to none
+const SHAPES: Record<string, (value: unknown) => boolean> = {
+  checkpoints: isZone,
+  lanes: value => isZone(value) && typeof value.athleteName === 'string',
+  workout: value => isObject(value) && (value.workType === 'laps' || value.workType === 'time')
+    && ['sets', 'workLaps', 'workSeconds', 'restSeconds'].every(key => isFiniteNumber(value[key])),
+};
+
+// The value if it has the type of the default for key, else undefined. Lists keep their
+// valid items; nested settings are checked key by key.
+function validateSetting(key: string, value: unknown, fallback: unknown): unknown {
+  if (value === undefined) return undefined;
+  if (fallback === null) return value === null || SHAPES[key]?.(value) ? value : undefined;
+  if (Array.isArray(fallback)) {
+    const isItem = SHAPES[key] ?? ((item: unknown) => typeof item === typeof fallback[0]);
+    return Array.isArray(value) ? value.filter(isItem) : undefined;
+  }
+  if (isObject(fallback)) return isObject(value) ? { ...fallback, ...pickValidSettings(value, fallback) } : undefined;
+  if (typeof fallback === 'number') return isFiniteNumber(value) ? value : undefined;
+  if (OPTIONS[key]) return OPTIONS[key].includes(value as string) ? value : undefined;
+  return typeof value === typeof fallback ? value : undefined;
+}
+
+// The keys of defaults whose values in raw are valid; unknown keys and bad values are dropped
+const pickValidSettings = (raw: RawSettings, defaults: object): RawSettings =>
+  Object.fromEntries(Object.entries(defaults).flatMap(([key, fallback]) => {
+    const value = validateSetting(key, raw[key], fallback);
+    return value === undefined ? [] : [[key, value]];
+  }));
+
+// Settings of any earlier version (or a partial set, such as a shared link) as current
+// settings; null for a version newer than this build understands. Values that don't match
+// the type of their default, such as a list stored as a number, fall back to the default.
+export function migrateSettings(raw: RawSettings, version: number): AppSettings | null {
+  if (version > SETTINGS_VERSION) return null;
+  let settings = raw;
+  for (let v = version; v < SETTINGS_VERSION; v++) settings = MIGRATIONS[v]?.(settings) ?? settings;
+  return { ...DEFAULT_SETTINGS, ...pickValidSettings(settings, DEFAULT_SETTINGS) };
+}
+
+function readVersioned(key: string): { version: number; data: unknown } | null {
+  try {
+    const saved = localStorage.getItem(key);
+    if (!saved) return null;
+    const parsed = JSON.parse(saved);
+    return isObject(parsed) && typeof parsed.version === 'number' ? { version: parsed.version, data: parsed.data } : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeVersioned(key: string, data: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify({ version: SETTINGS_VERSION, data }));
+  } catch (e) {
+    console.warn('Failed to save settings');
+  }
+}
+
+export function loadSettings(): AppSettings {
+  const saved = readVersioned(STORAGE_KEY_SETTINGS);
+  return (saved && isObject(saved.data) && migrateSettings(saved.data, saved.version)) || DEFAULT_SETTINGS;
+}
+
+export const saveSettings = (settings: AppSettings) => writeVersioned(STORAGE_KEY_SETTINGS, settings);
+
+export function loadPresets(): SettingsPreset[] {
+  const saved = readVersioned(STORAGE_KEY_PRESETS);
+  if (!saved || !Array.isArray(saved.data)) return [];
+  return saved.data.flatMap((preset: unknown) => {
+    if (!isObject(preset) || typeof preset.id !== 'string' || typeof preset.name !== 'string' || !isObject(preset.settings)) return [];
+    const settings = migrateSettings(preset.settings, saved.version);
+    return settings ? [{ id: preset.id, name: preset.name, settings, savedAt: Number(preset.savedAt) || 0 }] : [];
+  });
+}
+
+export const savePresets = (presets: SettingsPreset[]) => writeVersioned(STORAGE_KEY_PRESETS, presets);
+
+export const isDeviceSetting = (key: keyof AppSettings) => (DEVICE_SETTING_KEYS as readonly string[]).includes(key);
+
+const pickDeviceSettings = (settings: AppSettings) =>
+  Object.fromEntries(DEVICE_SETTING_KEYS.map(key => [key, settings[key]])) as Pick<AppSettings, typeof DEVICE_SETTING_KEYS[number]>;
+
+// The preset's settings with this device's own settings kept
+export const applyPreset = (current: AppSettings, preset: AppSettings): AppSettings =>
+  ({ ...preset, ...pickDeviceSettings(current) });
+
+// Whether the settings are the preset's, device settings aside
+export const matchesPreset = (current: AppSettings, preset: AppSettings) =>
+  (Object.keys(preset) as (keyof AppSettings)[])
+    .every(key => isDeviceSetting(key) || JSON.stringify(current[key]) === JSON.stringify(preset[key]));
@@ -0,0 +1,41 @@
+import { SlitScan } from '../types';
+import { openDatabase, requestToPromise, transactionDone, SLIT_SCANS_STORE } from './db';
+
+export async function saveSlitScan(scan: SlitScan): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SLIT_SCANS_STORE, 'readwrite');
+  tx.objectStore(SLIT_SCANS_STORE).put(scan);
+  await transactionDone(tx);
+}
+
+// A session's strips in recording order
+export async function getSessionSlitScans(sessionId: string): Promise<SlitScan[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(SLIT_SCANS_STORE, 'readonly');
+  const scans = await requestToPromise<SlitScan[]>(tx.objectStore(SLIT_SCANS_STORE).index('sessionId').getAll(sessionId));
+  return scans.sort((a, b) => a.timestamps[0] - b.timestamps[0]);
+}
+
+// Ids of the sessions that have a strip, read from the index without loading the images
+export async function listSlitScanSessionIds(): Promise<Set<string>> {
+  const db = await openDatabase();
+  const tx = db.transaction(SLIT_SCANS_STORE, 'readonly');
+  const ids = new Set<string>();
+  await new Promise<void>((resolve, reject) => {
+    const request = tx.objectStore(SLIT_SCANS_STORE).index('sessionId').openKeyCursor(null, 'nextunique');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      ids.add(cursor.key as string);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  return ids;
+}
+
+// Runs inside the caller's transaction so a session and its strips go together
+export async function deleteSessionSlitScans(store: IDBObjectStore, sessionId: IDBValidKey): Promise<void> {
+  const ids = await requestToPromise(store.index('sessionId').getAllKeys(sessionId));
+  ids.forEach(id => store.delete(id));
+}
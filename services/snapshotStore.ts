@@ -0,0 +1,29 @@
+import { LapSnapshot } from '../types';
+import { openDatabase, requestToPromise, transactionDone, SNAPSHOTS_STORE } from './db';
+
+export async function saveLapSnapshot(snapshot: LapSnapshot): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOTS_STORE).put(snapshot);
+  await transactionDone(tx);
+}
+
+export async function getLapSnapshot(lapId: string): Promise<LapSnapshot | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  return requestToPromise<LapSnapshot | undefined>(tx.objectStore(SNAPSHOTS_STORE).get(lapId));
+}
+
+// Thumbnails by lap id for the laps of one session; laps without a snapshot are left out
+export async function getSessionThumbnails(sessionId: string): Promise<Record<string, Blob>> {
+  const db = await openDatabase();
+  const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+  const snapshots = await requestToPromise<LapSnapshot[]>(tx.objectStore(SNAPSHOTS_STORE).index('sessionId').getAll(sessionId));
+  return Object.fromEntries(snapshots.map(s => [s.lapId, s.thumbnail]));
+}
+
+// Runs inside the caller's transaction so a session and its snapshots go together
+export async function deleteSessionSnapshots(store: IDBObjectStore, sessionId: IDBValidKey): Promise<void> {
+  const lapIds = await requestToPromise(store.index('sessionId').getAllKeys(sessionId));
+  lapIds.forEach(lapId => store.delete(lapId));
+}
@@ -1,23 +1,321 @@
+// Rectangle in the camera view, in the same percentage units as the tripwire settings
+export interface DetectionZone {
+  id: string;
+  x: number; // Centre, percentage 0-100
+  y: number; // Centre, percentage 0-100
+  width: number; // Percentage 1-100
+  height: number; // Percentage 1-100
+}
+
+// Lane zone in multi-lane mode, one per athlete running side by side
+export interface LaneZone extends DetectionZone {
+  athleteName: string;
+}
+
+// Line-crossing mode: only crossings in this direction count ('any' keeps plain motion triggering)
+export type CrossingDirection = 'any' | 'leftToRight' | 'rightToLeft' | 'topToBottom' | 'bottomToTop';
+
+// 'frameDiff' compares each frame to the previous one against a fixed threshold;
+// 'background' compares to a running background model and triggers on a z-score
+export type DetectionModel = 'frameDiff' | 'background';
+
+// How pixels are compared: all three colour channels, brightness only, or edge strength
+// (which ignores gradual lighting changes). Implementations live in detectors/.
+export type DetectorKind = 'rgb' | 'luma' | 'gradient';
+
+// Interval workout: `sets` repetitions of a work phase followed by a rest phase
+export interface IntervalWorkout {
+  sets: number;
+  workType: 'laps' | 'time';
+  workLaps: number; // Laps per set when workType is 'laps'
+  workSeconds: number; // Work phase length when workType is 'time'
+  restSeconds: number; // 0 runs the sets back to back
+}
+
+export type ToneStyle = 'beep' | 'chirp' | 'click';
+
+// Audio cues for athletes too far away to read the screen
+export interface AudioSettings {
+  volume: number; // 0-100
+  lapTone: boolean; // Tone on every recorded lap
+  toneStyle: ToneStyle;
+  paceTones: boolean; // Higher tone when faster than average, lower when slower
+  speakLaps: boolean; // SpeechSynthesis announcement of lap number, time and pace
+  countdownBeeps: boolean; // Beeps for the last seconds of targetDuration
+  finishFanfare: boolean;
+}
+
+// Confirmation a zone's motion needs before it counts. Motion starts above the detection threshold
+// and lasts until the score drops below exitRatio of it; it must last minFrames frames and change
+// at least minChangedArea of the zone's pixels, so a moth or a raindrop can't record a lap.
+export interface TriggerSettings {
+  exitRatio: number; // 0.2-1; exit threshold as a fraction of the enter threshold's height above the baseline
+  minFrames: number; // Consecutive frames of motion before a trigger
+  minChangedArea: number; // 0-1; fraction of the zone's pixels that must change
+  pixelThreshold: number; // Per-pixel change (0-765, summed over channels) for a pixel to count as changed
+}
+
+// Keyboard shortcuts, as KeyboardEvent.key values per action. Presentation clickers and media
+// keys arrive as key events too (PageDown, ArrowRight, MediaPlayPause...).
+export type ShortcutAction = 'lap' | 'startStop' | 'reset' | 'undoLap' | 'displayMode';
+
+export type KeyboardShortcuts = Record<ShortcutAction, string[]>;
+
+// 'readySetGo' runs a Ready - Set - (random hold) - Go sequence and stamps lap 0 at Go
+export type StartMode = 'immediate' | 'readySetGo';
+
 export interface AppSettings {
   tripwireX: number; // Percentage 0-100
   tripwireY: number; // Percentage 0-100
   detectionWidth: number; // Percentage 1-100
   detectionHeight: number; // Percentage 1-100
   sensitivity: number; // 0-100, where lower is more sensitive (threshold)
+  crossingDirection: CrossingDirection;
+  detectionModel: DetectionModel;
+  detector: DetectorKind;
+  zScoreThreshold: number; // Standard deviations above the noise baseline ('background' model)
   cooldown: number; // milliseconds
   devMode: boolean; // Replaces showTimerOverlay
   showCurrentLapDisplay: boolean;
   targetLaps: number; // 0 for infinite, >0 for target
   targetDuration: number; // 0 for infinite, >0 for target duration in seconds
+  checkpoints: DetectionZone[]; // Intermediate checkpoint zones in lap order; N checkpoints make N+1 sectors
+  laneMode: boolean; // Lane zones replace the start/finish zone and checkpoints
+  lanes: LaneZone[];
+  workout: IntervalWorkout | null; // Replaces targetLaps/targetDuration when set (single-lane only)
+  audio: AudioSettings;
+  trigger: TriggerSettings;
+  startMode: StartMode;
+  startVoice: boolean; // Speak "Ready" and "Set" instead of beeping (Go is always a tone)
+  remotePublish: boolean; // Publish lap and session events to remote displays
+  remoteRelayUrl: string; // ws:// address of the relay; empty for same-browser tabs only
+  gateRole: GateRole; // Two-camera timing over the same relay
+  photoFinish: boolean; // Keep JPEG frames around every crossing
+  slitScan: boolean; // Record a slit-scan strip of the start/finish line
+  subFrameTiming: boolean; // Interpolate crossings between frames instead of stamping the later frame
+  offscreenCapture: boolean; // Crop and diff frames in the worker where the browser supports it
+  tapTarget: boolean; // Large on-screen button that records a lap by hand
+  shortcuts: KeyboardShortcuts;
+}
+
+// A named set of settings for a venue or setup ("Indoor track lane 1"). Device-specific settings
+// (see DEVICE_SETTING_KEYS) are kept from the device when a preset is applied.
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  settings: AppSettings;
+  savedAt: number;
 }
 
 export interface Lap {
   id: string;
   timestamp: number;
   duration: number; // Time since previous lap (0 for first lap)
+  splits?: (number | null)[]; // Checkpoint crossing timestamps within this lap, indexed like settings.checkpoints (null if missed)
+  set?: number; // Interval workouts: index of the set this lap belongs to
+  uncertainty?: number; // Two-camera runs: ± ms from the clock sync between the start and finish gates
+  edited?: boolean; // Added or retimed by a manual lap edit
+  source?: LapSource; // Unset for start marks
+}
+
+// What recorded a lap: a crossing seen by the camera, or a tap, key or clicker
+export type LapSource = 'camera' | 'manual';
+
+// Manual corrections to the detected laps. Every edit adds or removes one lap mark (the
+// crossing that ends a lap): delete and merge remove lapId's mark, so its time goes to the
+// following lap; insert and split add a mark with id lapId.
+export type LapEditKind = 'delete' | 'merge' | 'insert' | 'split';
+
+export interface LapEdit {
+  kind: LapEditKind;
+  lapId: string;
+  timestamp: number; // Time of the mark added or removed
+  editedAt: number;
+}
+
+// The laps as detected before the first edit, and the edits since, in order
+export interface LapEditLog {
+  original: Lap[];
+  edits: LapEdit[];
+}
+
+// Two-camera timing: which gate this device is (off for single-camera laps)
+export type GateRole = 'off' | 'start' | 'finish';
+
+// One NTP-style exchange with the other gate. offset is their clock minus ours;
+// the true offset lies within ± roundTrip / 2 of it.
+export interface ClockSyncSample {
+  offset: number;
+  roundTrip: number;
+  measuredAt: number;
+}
+
+// Where an interval workout currently is; each phase runs from startedAt until its end condition
+export interface WorkoutPhase {
+  setIndex: number;
+  kind: 'work' | 'rest' | 'done';
+  startedAt: number;
 }
 
 export enum Tab {
   CONFIG = 'CONFIG',
   DISPLAY = 'DISPLAY'
-}
\ No newline at end of file
+}
+
+export type SessionEndReason = 'targetLaps' | 'targetDuration' | 'workoutComplete' | 'manual' | 'interrupted';
+
+// Span during which detection was not running (e.g. the tab was killed mid-session)
+export interface OfflineGap {
+  from: number;
+  to: number;
+}
+
+// Roster entry; sessions are attributed to an athlete by id
+export interface Athlete {
+  id: string;
+  name: string;
+  color: string; // Hex colour used for the athlete's badge
+  notes?: string;
+  createdAt: number;
+}
+
+export type StartStage = 'ready' | 'set' | 'go';
+
+// Start sequence outcome; the reaction time is derived from the first crossing after goAt
+export interface StartRecord {
+  goAt: number;
+  falseStart: boolean; // Motion in the zone before the go signal
+  reactionTime?: number; // ms from go to the first crossing, filled in when the session is archived
+}
+
+// Photo-finish frames around a crossing, stored per lap outside the session record
+export interface SnapshotFrame {
+  timestamp: number;
+  image: Blob; // JPEG
+}
+
+export interface CapturedSnapshot {
+  triggeredAt: number; // Crossing timestamp; matches the lap's timestamp
+  frames: SnapshotFrame[]; // Oldest first
+  triggerIndex: number; // Frame the crossing was detected on
+  thumbnail: Blob; // Small JPEG of the trigger frame
+}
+
+export interface LapSnapshot extends CapturedSnapshot {
+  lapId: string;
+  sessionId: string;
+}
+
+// Where MotionEngine's frames come from. Recorded camera clips replay like any other file.
+export type FrameSource = { kind: 'camera' } | { kind: 'file'; file: File; recorded?: boolean };
+
+// Camera choice and capture controls, remembered per device. A null deviceId lets the browser
+// pick (the rear camera where there is one).
+export interface CameraSettings {
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  lockExposure: boolean; // Locks hold what auto mode last settled on
+  lockFocus: boolean;
+  lockWhiteBalance: boolean;
+  torch: boolean;
+}
+
+// What the open camera track supports, read from getCapabilities
+export interface CameraCapabilities {
+  maxWidth: number;
+  maxHeight: number;
+  maxFrameRate: number;
+  exposure: boolean;
+  focus: boolean;
+  whiteBalance: boolean;
+  torch: boolean;
+}
+
+// The camera as opened: the device the browser chose and the mode it delivers
+export interface CameraStatus {
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  capabilities: CameraCapabilities;
+}
+
+// Laps found in one replay of a clip, kept to compare runs with different settings
+export interface ReplayRun {
+  id: string;
+  clipName: string;
+  settings: AppSettings;
+  lapDurations: number[];
+  finishedAt: number;
+}
+
+// Slit-scan strip: one column per video frame, sampled along the start/finish line.
+// Columns are split across JPEG chunks of chunkColumns each (the last may be narrower).
+export interface CapturedSlitScan {
+  height: number; // Pixels along the line
+  chunkColumns: number;
+  timestamps: number[]; // Capture time of each column
+  chunks: Blob[];
+}
+
+// One monitoring run of a session; a session stopped and restarted has several
+export interface SlitScan extends CapturedSlitScan {
+  id: string;
+  sessionId: string;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  athleteId?: string; // Athlete who ran the session (unset for anonymous sessions)
+  laps: Lap[];
+  settings: AppSettings; // Snapshot of the settings the session was recorded with
+  startedAt: number;
+  endedAt: number;
+  endReason: SessionEndReason;
+  offlineGaps?: OfflineGap[];
+  laneLaps?: Record<string, Lap[]>; // Multi-lane sessions: laps per lane id; `laps` then only holds the start mark
+  start?: StartRecord; // Sessions started with the Ready - Set - Go sequence
+  lapEdits?: LapEditLog; // Sessions whose laps were corrected by hand
+}
+
+export interface SectorStats {
+  last: number; // 0 when the latest lap has no time for this sector
+  best: number;
+}
+
+export interface SetStats {
+  setIndex: number;
+  count: number;
+  average: number;
+  fastest: number;
+}
+
+export interface LapStats {
+  average: number;
+  count: number;
+  last: number;
+  fastest: number;
+  slowest: number;
+  isFinished: boolean;
+  targetLaps: number;
+  targetDuration: number;
+}
+
+// All-time figures over every session attributed to one athlete
+export interface AthleteStats {
+  sessionCount: number;
+  lapCount: number;
+  average: number; // Mean of all completed laps
+  personalBest: number; // Fastest single lap
+  bestAverage: number; // Best session average
+}
+
+export interface LaneStats {
+  laneId: string;
+  athleteName: string;
+  stats: LapStats;
+  lastTimestamp: number; // Latest crossing, used to break ties for the lead
+}
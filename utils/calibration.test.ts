@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DiffSample, analyzeNoise, buildHistogram, detectPasses, suggestSettings } from './calibration';
+
+// One sample every 33 ms
+const samples = (diffs: number[], from = 0): DiffSample[] => diffs.map((diff, i) => ({ diff, timestamp: from + i * 33 }));
+
+describe('analyzeNoise', () => {
+  it('measures the mean, spread and ceiling of quiet frames', () => {
+    expect(analyzeNoise(samples([2, 4, 2, 4]))).toEqual({ mean: 3, spread: 1, ceiling: 4 });
+    expect(analyzeNoise([])).toEqual({ mean: 0, spread: 0, ceiling: 0 });
+  });
+});
+
+describe('detectPasses', () => {
+  const noise = { mean: 3, spread: 1, ceiling: 4 };
+
+  it('finds runs of frames above the noise, merged across short dips', () => {
+    const passes = detectPasses(samples([3, 20, 40, 3, 30, 3, 3, 3, 3, 3, 3, 3, 3, 25, 3]), noise);
+    expect(passes).toEqual([{ peak: 40, duration: 99 }, { peak: 25, duration: 0 }]);
+  });
+
+  it('ignores frames within the noise level', () => {
+    expect(detectPasses(samples([3, 6, 7, 3]), noise)).toEqual([]);
+  });
+});
+
+describe('suggestSettings', () => {
+  it('puts the threshold 40% of the way from the noise to the weakest pass', () => {
+    // Threshold 4 + (54 - 4) * 0.4 = 24, so sensitivity 105 - 24
+    const suggestion = suggestSettings({ mean: 3, spread: 1, ceiling: 4 }, [{ peak: 54, duration: 400 }, { peak: 80, duration: 200 }]);
+    expect(suggestion).toEqual({ sensitivity: 81, cooldown: 600, separable: true });
+  });
+
+  it('flags passes that do not clear the noise', () => {
+    expect(suggestSettings({ mean: 20, spread: 5, ceiling: 30 }, [{ peak: 25, duration: 100 }]).separable).toBe(false);
+  });
+
+  it('keeps the cooldown between 300 ms and 5 s', () => {
+    const noise = { mean: 3, spread: 1, ceiling: 4 };
+    expect(suggestSettings(noise, [{ peak: 50, duration: 10 }]).cooldown).toBe(300);
+    expect(suggestSettings(noise, [{ peak: 50, duration: 10000 }]).cooldown).toBe(5000);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('bins noise frames as shares and pass peaks as counts', () => {
+    const bins = buildHistogram(samples([1, 1, 9, 9]), [{ peak: 20, duration: 0 }], 4);
+    expect(bins.map(b => b.score)).toEqual([0, 5, 10, 15]);
+    expect(bins.map(b => b.noise)).toEqual([50, 50, 0, 0]);
+    expect(bins.map(b => b.passes)).toEqual([0, 0, 0, 1]);
+  });
+});
@@ -0,0 +1,105 @@
+// Pure analysis for the sensitivity calibration wizard. Diff scores are the same
+// frame-to-frame scores MotionEngine compares against `105 - sensitivity`.
+
+export interface DiffSample {
+  diff: number;
+  timestamp: number;
+}
+
+export interface NoiseProfile {
+  mean: number;
+  spread: number; // Standard deviation
+  ceiling: number; // 99th percentile; the level quiet frames stay under
+}
+
+export interface MotionPass {
+  peak: number;
+  duration: number; // ms spent above the detection level
+}
+
+export interface CalibrationSuggestion {
+  sensitivity: number;
+  cooldown: number;
+  separable: boolean; // False when the weakest pass did not clear the noise ceiling
+}
+
+export interface HistogramBin {
+  score: number; // Lower edge of the bin
+  noise: number; // Share of noise frames in this bin (%)
+  passes: number; // Number of pass peaks in this bin
+}
+
+// Frames closer together than this belong to the same pass through the zone
+const PASS_MERGE_GAP_MS = 250;
+
+const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+export const sensitivityToThreshold = (sensitivity: number) => 105 - sensitivity;
+
+export function analyzeNoise(samples: DiffSample[]): NoiseProfile {
+  const diffs = samples.map(s => s.diff);
+  if (diffs.length === 0) return { mean: 0, spread: 0, ceiling: 0 };
+
+  const mean = diffs.reduce((acc, d) => acc + d, 0) / diffs.length;
+  const variance = diffs.reduce((acc, d) => acc + (d - mean) ** 2, 0) / diffs.length;
+  return { mean, spread: Math.sqrt(variance), ceiling: percentile(diffs, 0.99) };
+}
+
+// Splits the recording into passes: runs of frames above the noise level, merged
+// across short dips so one athlete crossing the zone counts once
+export function detectPasses(samples: DiffSample[], noise: NoiseProfile): MotionPass[] {
+  const level = Math.max(noise.ceiling, noise.mean + 4 * noise.spread);
+  const passes: (MotionPass & { start: number; end: number })[] = [];
+
+  samples.forEach(({ diff, timestamp }) => {
+    if (diff <= level) return;
+
+    const current = passes[passes.length - 1];
+    if (current && timestamp - current.end <= PASS_MERGE_GAP_MS) {
+      current.end = timestamp;
+      current.peak = Math.max(current.peak, diff);
+    } else {
+      passes.push({ start: timestamp, end: timestamp, peak: diff, duration: 0 });
+    }
+  });
+
+  return passes.map(({ start, end, peak }) => ({ peak, duration: end - start }));
+}
+
+// Puts the threshold 40% of the way from the noise ceiling to the weakest pass peak,
+// which keeps slow movers above it while leaving headroom over the noise. The cooldown
+// must outlast the longest pass so one crossing can't trigger twice.
+export function suggestSettings(noise: NoiseProfile, passes: MotionPass[]): CalibrationSuggestion {
+  const weakestPeak = passes.length > 0 ? Math.min(...passes.map(p => p.peak)) : 0;
+  const separable = weakestPeak > noise.ceiling;
+
+  const threshold = separable
+    ? noise.ceiling + (weakestPeak - noise.ceiling) * 0.4
+    : noise.ceiling * 1.2 + 1;
+  const sensitivity = Math.round(Math.max(1, Math.min(100, 105 - threshold)));
+
+  const longestPass = passes.length > 0 ? Math.max(...passes.map(p => p.duration)) : 0;
+  const cooldown = Math.max(300, Math.min(5000, Math.ceil((longestPass * 1.5) / 100) * 100));
+
+  return { sensitivity, cooldown, separable };
+}
+
+export function buildHistogram(noiseSamples: DiffSample[], passes: MotionPass[], binCount = 20): HistogramBin[] {
+  const maxScore = Math.max(1, ...noiseSamples.map(s => s.diff), ...passes.map(p => p.peak));
+  const binSize = Math.ceil(maxScore / binCount);
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({ score: i * binSize, noise: 0, passes: 0 }));
+  const binOf = (score: number) => Math.min(binCount - 1, Math.floor(score / binSize));
+
+  noiseSamples.forEach(({ diff }) => {
+    bins[binOf(diff)].noise += 100 / noiseSamples.length;
+  });
+  passes.forEach(({ peak }) => {
+    bins[binOf(peak)].passes += 1;
+  });
+
+  return bins;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { formatUncertainty, getBestClockSync, getSyncUncertainty, measureClockSync, toLocalClock } from './clockSync';
+
+describe('clock sync', () => {
+  // The other clock runs 1040 ms ahead; the ping takes 10 ms each way and is answered in 10 ms
+  const sample = measureClockSync(100, 1150, 1160, 130);
+
+  it('measures the offset and the round trip from one ping/pong', () => {
+    expect(sample).toEqual({ offset: 1040, roundTrip: 20, measuredAt: 130 });
+    expect(getSyncUncertainty(sample)).toBe(10);
+  });
+
+  it('converts the other clock onto ours', () => {
+    expect(toLocalClock(1150, sample)).toBe(110);
+  });
+
+  it('prefers the sample with the shortest round trip', () => {
+    const slow = measureClockSync(200, 1300, 1310, 290);
+    expect(getBestClockSync([slow, sample])).toBe(sample);
+    expect(getBestClockSync([])).toBeNull();
+  });
+
+  it('formats the uncertainty', () => {
+    expect(formatUncertainty(4.2)).toBe('±4.2 ms');
+    expect(formatUncertainty(12.6)).toBe('±13 ms');
+  });
+});
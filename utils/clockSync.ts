@@ -0,0 +1,24 @@
+import { ClockSyncSample } from '../types';
+
+// NTP-style estimate from one ping/pong. t0: ping sent (our clock), t1: ping received
+// (their clock), t2: pong sent (their clock), t3: pong received (our clock). Assumes the
+// network delay is the same both ways; any asymmetry is bounded by the round trip.
+export function measureClockSync(t0: number, t1: number, t2: number, t3: number): ClockSyncSample {
+  return {
+    offset: ((t1 - t0) + (t2 - t3)) / 2,
+    roundTrip: Math.max(0, (t3 - t0) - (t2 - t1)),
+    measuredAt: t3,
+  };
+}
+
+// The sample with the shortest round trip has the tightest bound
+export function getBestClockSync(samples: ClockSyncSample[]): ClockSyncSample | null {
+  return samples.reduce<ClockSyncSample | null>((best, s) => (!best || s.roundTrip < best.roundTrip ? s : best), null);
+}
+
+export const getSyncUncertainty = (sample: ClockSyncSample) => sample.roundTrip / 2;
+
+// Converts a timestamp taken on the other device's clock onto ours
+export const toLocalClock = (remoteTime: number, sample: ClockSyncSample) => remoteTime - sample.offset;
+
+export const formatUncertainty = (ms: number) => `±${ms < 10 ? ms.toFixed(1) : Math.round(ms)} ms`;
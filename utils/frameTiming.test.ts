@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { VideoFrameMetadata, clockNow, estimateTimingUncertainty, getCameraFrameTimestamp, interpolateCrossing } from './frameTiming';
+
+describe('interpolateCrossing', () => {
+  it('places the crossing where the score passed the threshold', () => {
+    expect(interpolateCrossing({ value: 0, time: 100 }, { value: 40, time: 140 }, 10)).toBe(110);
+  });
+
+  it('falls back to the later frame when the pair does not straddle the threshold', () => {
+    expect(interpolateCrossing({ value: 20, time: 100 }, { value: 40, time: 140 }, 10)).toBe(140);
+    expect(interpolateCrossing({ value: 0, time: 100 }, { value: 5, time: 140 }, 10)).toBe(140);
+    expect(interpolateCrossing({ value: 0, time: 140 }, { value: 40, time: 140 }, 10)).toBe(140);
+  });
+});
+
+describe('getCameraFrameTimestamp', () => {
+  const metadata: VideoFrameMetadata = { mediaTime: 0, presentationTime: 500, expectedDisplayTime: 516 };
+
+  it('prefers the capture time, then the presentation time, on the same clock as clockNow', () => {
+    expect(getCameraFrameTimestamp({ ...metadata, captureTime: 480 }, 0))
+      .toEqual({ time: performance.timeOrigin + 480, clock: 'capture' });
+    expect(getCameraFrameTimestamp(metadata, 0)).toEqual({ time: performance.timeOrigin + 500, clock: 'presentation' });
+    expect(getCameraFrameTimestamp(undefined, 1234)).toEqual({ time: 1234, clock: 'wall' });
+  });
+
+  it('counts clockNow on the performance clock', () => {
+    const before = performance.timeOrigin + performance.now();
+    const now = clockNow();
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now - before).toBeLessThan(50);
+  });
+});
+
+describe('estimateTimingUncertainty', () => {
+  it('is half a frame, a quarter when interpolated, plus a frame without frame metadata', () => {
+    expect(estimateTimingUncertainty(40, 'capture', false)).toBe(20);
+    expect(estimateTimingUncertainty(40, 'capture', true)).toBe(10);
+    expect(estimateTimingUncertainty(40, 'wall', false)).toBe(60);
+  });
+});
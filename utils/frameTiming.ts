@@ -0,0 +1,53 @@
+// Frame timestamps. Each frame is dated when it was captured, from the video frame callback's
+// metadata, so the latency of the canvas readback and the worker round trip doesn't reach lap times.
+
+// Which clock a frame's timestamp came from, best first
+export type FrameClock = 'capture' | 'presentation' | 'media' | 'wall';
+
+// The requestVideoFrameCallback metadata fields used here; not in the DOM typings
+export interface VideoFrameMetadata {
+  mediaTime: number; // Seconds
+  presentationTime: number; // performance.now() time base, like captureTime
+  expectedDisplayTime: number;
+  captureTime?: number; // Camera frames only
+}
+
+export interface FrameTimestamp {
+  time: number; // Epoch ms, on the clock of clockNow
+  clock: FrameClock;
+}
+
+// The clock for every lap, start, gate and timer timestamp: epoch ms like Date.now(), but
+// counted on the monotonic clock that frame capture times and input events use. The wall
+// clock drifts from it, and jumps when the device sleeps or syncs its time.
+export const clockNow = () => performance.timeOrigin + performance.now();
+
+// Camera frames: the capture time, or failing that when the frame reached the compositor.
+// Without metadata (no requestVideoFrameCallback) only the time of the callback is left.
+// (Files are dated by media time instead, which needs the source's base time.)
+export function getCameraFrameTimestamp(metadata: VideoFrameMetadata | undefined, callbackNow: number): FrameTimestamp {
+  if (metadata?.captureTime) return { time: performance.timeOrigin + metadata.captureTime, clock: 'capture' };
+  if (metadata?.presentationTime) return { time: performance.timeOrigin + metadata.presentationTime, clock: 'presentation' };
+  return { time: callbackNow, clock: 'wall' };
+}
+
+export interface FrameSample {
+  value: number; // The score that is compared with the threshold
+  time: number;
+}
+
+// Time the score crossed the threshold, by linear interpolation between the last frame below it
+// and the first frame above it. Falls back to the later frame when the pair doesn't straddle it.
+export function interpolateCrossing(before: FrameSample, after: FrameSample, threshold: number): number {
+  if (before.value >= threshold || after.value <= threshold || after.time <= before.time) return after.time;
+  const fraction = (threshold - before.value) / (after.value - before.value);
+  return before.time + fraction * (after.time - before.time);
+}
+
+// Rough ± bound on a trigger time. A frame-stamped crossing happened somewhere in the frame interval
+// before it; interpolation narrows that, taken here as to a quarter of the interval. The wall clock
+// also misses the unknown delay before the frame was drawn, up to about another frame.
+export function estimateTimingUncertainty(frameInterval: number, clock: FrameClock, interpolated: boolean): number {
+  const quantization = interpolated ? frameInterval / 4 : frameInterval / 2;
+  return clock === 'wall' ? quantization + frameInterval : quantization;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Lap } from '../types';
+import { applyLapEdit, deleteLap, insertLap, mergeWithNext, recordLapEdit, restoreOriginalLaps, splitLap } from './lapEdits';
+
+// Start mark at 0, then laps a, b and c a second apart
+const laps: Lap[] = [
+  { id: 'start', timestamp: 0, duration: 0 },
+  { id: 'a', timestamp: 1000, duration: 1000, source: 'camera' },
+  { id: 'b', timestamp: 2000, duration: 1000, source: 'camera', splits: [1500] },
+  { id: 'c', timestamp: 3000, duration: 1000, source: 'camera' },
+];
+
+const durations = (result: Lap[]) => result.map(l => l.duration);
+
+describe('lap edits', () => {
+  it('deletes a false lap, giving its time to the next one', () => {
+    const result = applyLapEdit(laps, deleteLap(laps, 'b')!);
+    expect(result.map(l => l.id)).toEqual(['start', 'a', 'c']);
+    expect(result[2]).toMatchObject({ duration: 2000, edited: true });
+  });
+
+  it("doesn't delete the start mark", () => {
+    expect(deleteLap(laps, 'start')).toBeNull();
+  });
+
+  it('merges a lap with the next one', () => {
+    const result = applyLapEdit(laps, mergeWithNext(laps, 'a')!);
+    expect(durations(result)).toEqual([0, 2000, 1000]);
+    expect(mergeWithNext(laps, 'c')).toBeNull();
+  });
+
+  it('splits a lap in two and drops its splits', () => {
+    const edit = splitLap(laps, 'b', 400)!;
+    expect(edit.timestamp).toBe(1400);
+    const result = applyLapEdit(laps, edit);
+    expect(durations(result)).toEqual([0, 1000, 400, 600, 1000]);
+    expect(result[3].splits).toBeUndefined();
+    expect(result[2]).toMatchObject({ source: 'manual', edited: true });
+    expect(splitLap(laps, 'b', 1000)).toBeNull();
+  });
+
+  it('adds a missed lap after the last mark', () => {
+    const result = applyLapEdit(laps, insertLap(laps, 500)!);
+    expect(result[result.length - 1]).toMatchObject({ timestamp: 3500, duration: 500 });
+  });
+
+  it('leaves laps untouched that an edit no longer applies to', () => {
+    const edit = deleteLap(laps, 'b')!;
+    const once = applyLapEdit(laps, edit);
+    expect(applyLapEdit(once, edit)).toBe(once);
+  });
+});
+
+describe('edit log', () => {
+  it('keeps the laps as detected from the first edit', () => {
+    const first = recordLapEdit(null, laps, deleteLap(laps, 'a')!);
+    const second = recordLapEdit(first, [], deleteLap(laps, 'b')!);
+    expect(second.original).toBe(laps);
+    expect(second.edits.map(e => e.lapId)).toEqual(['a', 'b']);
+  });
+
+  it('restores the detected laps, keeping laps detected after the edits', () => {
+    const split = splitLap(laps, 'c', 500)!;
+    const log = recordLapEdit(recordLapEdit(null, laps, deleteLap(laps, 'a')!), laps, split);
+    const edited = applyLapEdit(applyLapEdit(laps, log.edits[0]), split);
+    const later: Lap = { id: 'd', timestamp: 4200, duration: 700, source: 'camera' };
+
+    const restored = restoreOriginalLaps([...edited, later], log);
+    expect(restored.map(l => l.id)).toEqual(['start', 'a', 'b', 'c', 'd']);
+    expect(restored[4].duration).toBe(1200);
+  });
+});
@@ -0,0 +1,88 @@
+import { Lap, LapEdit, LapEditLog } from '../types';
+
+// Durations follow from the marks, so after a mark is added or removed every lap is timed
+// again from the one before it. Start marks stay start marks. A lap whose time changed
+// loses its checkpoint splits, which no longer fall inside the same stretch.
+function retimeLaps(laps: Lap[]): Lap[] {
+  return laps.map((lap, i) => {
+    if (lap.duration === 0 || i === 0) return lap;
+    const duration = lap.timestamp - laps[i - 1].timestamp;
+    if (duration === lap.duration) return lap;
+    const { splits: _, ...rest } = lap;
+    return { ...rest, duration, edited: true };
+  });
+}
+
+const removeMark = (laps: Lap[], lapId: string) => {
+  const index = laps.findIndex(l => l.id === lapId);
+  // Start marks can't be removed; the laps after them would have nothing to be timed from
+  if (index === -1 || laps[index].duration === 0) return laps;
+  return retimeLaps([...laps.slice(0, index), ...laps.slice(index + 1)]);
+};
+
+const addMark = (laps: Lap[], lapId: string, timestamp: number) => {
+  const index = laps.findIndex(l => l.timestamp > timestamp);
+  const insertAt = index === -1 ? laps.length : index;
+  const previous = laps[insertAt - 1];
+  // Nothing to time a mark from before the session start, or on top of another mark
+  if (!previous || previous.timestamp === timestamp) return laps;
+  const next = laps[insertAt];
+  const lap: Lap = { id: lapId, timestamp, duration: timestamp - previous.timestamp, edited: true, source: 'manual' };
+  // The set of the lap it splits, or of the lap before it when added at the end
+  const set = (next?.duration ? next : previous).set;
+  if (set !== undefined) lap.set = set;
+  return retimeLaps([...laps.slice(0, insertAt), lap, ...laps.slice(insertAt)]);
+};
+
+export function applyLapEdit(laps: Lap[], edit: LapEdit): Lap[] {
+  if (edit.kind === 'delete' || edit.kind === 'merge') return removeMark(laps, edit.lapId);
+  return addMark(laps, edit.lapId, edit.timestamp);
+}
+
+// Edit builders. Each returns null when the edit doesn't apply to the laps as they are.
+
+// A false lap: its mark goes, and its time with it into the next lap
+export function deleteLap(laps: Lap[], lapId: string): LapEdit | null {
+  const lap = laps.find(l => l.id === lapId);
+  return lap && lap.duration > 0 ? { kind: 'delete', lapId, timestamp: lap.timestamp, editedAt: Date.now() } : null;
+}
+
+// Joins a lap with the lap after it
+export function mergeWithNext(laps: Lap[], lapId: string): LapEdit | null {
+  const index = laps.findIndex(l => l.id === lapId);
+  const next = laps[index + 1];
+  if (index === -1 || laps[index].duration <= 0 || !next || next.duration <= 0) return null;
+  return { kind: 'merge', lapId, timestamp: laps[index].timestamp, editedAt: Date.now() };
+}
+
+// A lap that covers two: a mark is added firstPart ms into it
+export function splitLap(laps: Lap[], lapId: string, firstPart: number): LapEdit | null {
+  const lap = laps.find(l => l.id === lapId);
+  if (!lap || lap.duration <= 0 || firstPart <= 0 || firstPart >= lap.duration) return null;
+  return { kind: 'split', lapId: crypto.randomUUID(), timestamp: lap.timestamp - lap.duration + firstPart, editedAt: Date.now() };
+}
+
+// A missed crossing after the last mark, duration ms after it
+export function insertLap(laps: Lap[], duration: number): LapEdit | null {
+  const last = laps[laps.length - 1];
+  if (!last || duration <= 0) return null;
+  return { kind: 'insert', lapId: crypto.randomUUID(), timestamp: last.timestamp + duration, editedAt: Date.now() };
+}
+
+// Starts the log with the laps as detected on the first edit
+export const recordLapEdit = (log: LapEditLog | null, laps: Lap[], edit: LapEdit): LapEditLog =>
+  log ? { ...log, edits: [...log.edits, edit] } : { original: laps, edits: [edit] };
+
+// The detected laps back, keeping laps detected after the last original one
+// (a session still running while it was edited)
+export function restoreOriginalLaps(laps: Lap[], log: LapEditLog): Lap[] {
+  const lastOriginal = log.original[log.original.length - 1]?.timestamp ?? -Infinity;
+  const added = new Set(log.edits.filter(e => e.kind === 'insert' || e.kind === 'split').map(e => e.lapId));
+  const later = laps.filter(l => l.timestamp > lastOriginal && !added.has(l.id));
+  const restored = [...log.original, ...later];
+  return restored.map((lap, i) => {
+    if (i < log.original.length || lap.duration === 0) return lap;
+    const { edited: _, ...rest } = lap;
+    return { ...rest, duration: lap.timestamp - restored[i - 1].timestamp };
+  });
+}
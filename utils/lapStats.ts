@@ -0,0 +1,118 @@
+import { AthleteStats, Lap, LapStats, LaneStats, LaneZone, OfflineGap, SectorStats, Session, SessionEndReason } from '../types';
+import { clockNow } from './frameTiming';
+
+// Laps with a duration of 0 mark the session start and are not counted
+export const getCompletedLaps = (laps: Lap[]) => laps.filter(l => l.duration > 0);
+
+export const isLapTargetReached = (laps: Lap[], targetLaps: number) =>
+  targetLaps > 0 && getCompletedLaps(laps).length >= targetLaps;
+
+export const isTimeTargetReached = (laps: Lap[], targetDuration: number, now = clockNow()) =>
+  targetDuration > 0 && laps.length > 0 && (now - laps[0].timestamp) >= targetDuration * 1000;
+
+export function computeLapStats(laps: Lap[], targetLaps: number, targetDuration: number): LapStats {
+  const validLaps = getCompletedLaps(laps);
+  const count = validLaps.length;
+
+  if (count === 0) return { average: 0, count: 0, last: 0, fastest: 0, slowest: 0, isFinished: false, targetLaps, targetDuration };
+
+  const durations = validLaps.map(l => l.duration);
+  const totalTime = durations.reduce((acc, curr) => acc + curr, 0);
+  const average = totalTime / count;
+  const last = durations[durations.length - 1];
+  const fastest = Math.min(...durations);
+  const slowest = Math.max(...durations);
+
+  // Check if session is finished by lap count OR duration
+  const isFinished = isLapTargetReached(laps, targetLaps) || isTimeTargetReached(laps, targetDuration);
+
+  return { average, count, last, fastest, slowest, isFinished, targetLaps, targetDuration };
+}
+
+export function getSessionEndReason(laps: Lap[], targetLaps: number, targetDuration: number, endedAt: number): SessionEndReason {
+  if (isLapTargetReached(laps, targetLaps)) return 'targetLaps';
+  if (isTimeTargetReached(laps, targetDuration, endedAt)) return 'targetDuration';
+  return 'manual';
+}
+
+export const getOfflineDuration = (gaps: OfflineGap[] = []) =>
+  gaps.reduce((acc, gap) => acc + (gap.to - gap.from), 0);
+
+// Sector k runs from the previous boundary (lap start or checkpoint k-1) to checkpoint k,
+// the final sector ends at the lap mark. Sectors with a missed checkpoint have no time.
+export function computeSectorStats(laps: Lap[], checkpointCount: number): SectorStats[] {
+  const sectors: SectorStats[] = Array.from({ length: checkpointCount + 1 }, () => ({ last: 0, best: 0 }));
+  if (checkpointCount === 0) return [];
+
+  laps.forEach((lap, index) => {
+    if (index === 0 || lap.duration <= 0) return;
+
+    const boundaries = [laps[index - 1].timestamp, ...Array.from({ length: checkpointCount }, (_, i) => lap.splits?.[i] ?? null), lap.timestamp];
+
+    sectors.forEach((sector, k) => {
+      const from = boundaries[k];
+      const to = boundaries[k + 1];
+      const time = from !== null && to !== null && to > from ? to - from : 0;
+      sector.last = time;
+      if (time > 0 && (sector.best === 0 || time < sector.best)) sector.best = time;
+    });
+  });
+
+  return sectors;
+}
+
+export function computeLaneStats(lanes: LaneZone[], laneLaps: Record<string, Lap[]>, targetLaps: number, targetDuration: number): LaneStats[] {
+  return lanes.map((lane, index) => {
+    const lapsForLane = laneLaps[lane.id] ?? [];
+    return {
+      laneId: lane.id,
+      athleteName: lane.athleteName || `Lane ${index + 1}`,
+      stats: computeLapStats(lapsForLane, targetLaps, targetDuration),
+      lastTimestamp: lapsForLane.length > 0 ? lapsForLane[lapsForLane.length - 1].timestamp : 0,
+    };
+  });
+}
+
+// The leader has the most completed laps; on equal laps, whoever completed theirs first
+export function getLeadingLaneId(laneStats: LaneStats[]): string | null {
+  const ranked = laneStats
+    .filter(lane => lane.stats.count > 0)
+    .sort((a, b) => b.stats.count - a.stats.count || a.lastTimestamp - b.lastTimestamp);
+  return ranked[0]?.laneId ?? null;
+}
+
+// Headline figures of a stored session; in a lane session, those of the leading lane
+export function computeSessionStats(session: Session): LapStats {
+  const { lanes, targetLaps, targetDuration } = session.settings;
+  if (!session.laneLaps) return computeLapStats(session.laps, targetLaps, targetDuration);
+  const laneStats = computeLaneStats(lanes, session.laneLaps, targetLaps, targetDuration);
+  const leader = laneStats.find(lane => lane.laneId === getLeadingLaneId(laneStats));
+  return leader?.stats ?? computeLapStats([], targetLaps, targetDuration);
+}
+
+export const areLanesFinished = (lanes: LaneZone[], laneLaps: Record<string, Lap[]>, targetLaps: number) =>
+  lanes.length > 0 && lanes.every(lane => isLapTargetReached(laneLaps[lane.id] ?? [], targetLaps));
+
+// Pools the completed laps of every given session (callers filter to one athlete first)
+export function computeAthleteStats(sessions: Session[]): AthleteStats {
+  const durations = sessions.flatMap(s => getCompletedLaps(s.laps).map(l => l.duration));
+  const sessionAverages = sessions
+    .map(s => computeLapStats(s.laps, 0, 0).average)
+    .filter(avg => avg > 0);
+
+  return {
+    sessionCount: sessions.length,
+    lapCount: durations.length,
+    average: durations.length > 0 ? durations.reduce((acc, d) => acc + d, 0) / durations.length : 0,
+    personalBest: durations.length > 0 ? Math.min(...durations) : 0,
+    bestAverage: sessionAverages.length > 0 ? Math.min(...sessionAverages) : 0,
+  };
+}
+
+// Go signal to the first crossing; in lane mode, whichever lane crossed first
+export function getReactionTime(goAt: number, laps: Lap[], laneLaps?: Record<string, Lap[]>): number | undefined {
+  const firstCrossings = (laneLaps ? Object.values(laneLaps) : [laps])
+    .map(list => getCompletedLaps(list)[0]?.timestamp)
+    .filter((t): t is number => t !== undefined);
+  return firstCrossings.length > 0 ? Math.min(...firstCrossings) - goAt : undefined;
+}
@@ -0,0 +1,94 @@
+import { CapturedSnapshot } from '../types';
+import {
+  PHOTO_FINISH_FRAMES_BEFORE, PHOTO_FINISH_FRAMES_AFTER, PHOTO_FINISH_MAX_WIDTH, PHOTO_FINISH_QUALITY, PHOTO_FINISH_THUMB_WIDTH,
+} from '../constants';
+
+interface BufferedFrame {
+  canvas: HTMLCanvasElement;
+  timestamp: number;
+}
+
+interface PendingCapture {
+  triggeredAt: number;
+  framesLeft: number; // Frames still to record after the crossing
+}
+
+export interface PhotoFinishRecorder {
+  push: (source: CanvasImageSource, width: number, height: number, timestamp: number) => void;
+  trigger: (triggeredAt: number) => void;
+  clear: () => void;
+}
+
+const toJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('JPEG encoding failed'))), 'image/jpeg', PHOTO_FINISH_QUALITY);
+  });
+
+// Keeps the last few clean camera frames in a ring of reusable canvases. A trigger waits for
+// PHOTO_FINISH_FRAMES_AFTER more frames, then encodes the whole window around the crossing.
+export function createPhotoFinishRecorder(onCapture: (snapshot: CapturedSnapshot) => void): PhotoFinishRecorder {
+  const size = PHOTO_FINISH_FRAMES_BEFORE + 1 + PHOTO_FINISH_FRAMES_AFTER;
+  const ring: BufferedFrame[] = [];
+  let next = 0;
+  let pending: PendingCapture[] = [];
+
+  const capture = ({ triggeredAt }: PendingCapture) => {
+    const frames = [...ring.slice(next), ...ring.slice(0, next)];
+    // Last frame drawn before the detector reported the crossing
+    const triggerIndex = frames.reduce((found, f, i) => (f.timestamp <= triggeredAt ? i : found), 0);
+
+    const thumb = document.createElement('canvas');
+    const source = frames[triggerIndex].canvas;
+    thumb.width = PHOTO_FINISH_THUMB_WIDTH;
+    thumb.height = Math.round(source.height * (PHOTO_FINISH_THUMB_WIDTH / source.width));
+    thumb.getContext('2d')?.drawImage(source, 0, 0, thumb.width, thumb.height);
+
+    // toBlob copies the pixels when called, so the ring can be reused while encoding runs
+    const images = frames.map(f => toJpeg(f.canvas));
+    const timestamps = frames.map(f => f.timestamp);
+    Promise.all([Promise.all(images), toJpeg(thumb)])
+      .then(([encoded, thumbnail]) => onCapture({
+        triggeredAt,
+        frames: encoded.map((image, i) => ({ timestamp: timestamps[i], image })),
+        triggerIndex,
+        thumbnail,
+      }))
+      .catch((e) => console.warn('Photo-finish capture failed:', e));
+  };
+
+  return {
+    push: (source, width, height, timestamp) => {
+      const scale = Math.min(1, PHOTO_FINISH_MAX_WIDTH / width);
+      let frame = ring[next];
+      if (!frame) {
+        frame = { canvas: document.createElement('canvas'), timestamp };
+        ring[next] = frame;
+      }
+      const w = Math.round(width * scale);
+      const h = Math.round(height * scale);
+      if (frame.canvas.width !== w || frame.canvas.height !== h) {
+        frame.canvas.width = w;
+        frame.canvas.height = h;
+      }
+      frame.canvas.getContext('2d', { alpha: false })?.drawImage(source, 0, 0, w, h);
+      frame.timestamp = timestamp;
+      next = (next + 1) % size;
+
+      pending = pending.filter((p) => {
+        p.framesLeft--;
+        if (p.framesLeft > 0) return true;
+        capture(p);
+        return false;
+      });
+    },
+    trigger: (triggeredAt) => {
+      if (ring.length === 0) return;
+      pending.push({ triggeredAt, framesLeft: PHOTO_FINISH_FRAMES_AFTER });
+    },
+    clear: () => {
+      ring.length = 0;
+      next = 0;
+      pending = [];
+    },
+  };
+}
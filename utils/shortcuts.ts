@@ -0,0 +1,29 @@
+import { KeyboardShortcuts, ShortcutAction } from '../types';
+
+// Letters match whatever the case, so Caps Lock or Shift doesn't disable them
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export function getShortcutAction(shortcuts: KeyboardShortcuts, key: string): ShortcutAction | null {
+  const normalized = normalizeKey(key);
+  const entry = (Object.entries(shortcuts) as [ShortcutAction, string[]][])
+    .find(([, keys]) => keys.some(k => normalizeKey(k) === normalized));
+  return entry ? entry[0] : null;
+}
+
+// Keys typed into a field are text, not shortcuts
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT');
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  MediaPlayPause: 'Play/Pause',
+  MediaTrackNext: 'Next Track',
+  MediaTrackPrevious: 'Prev Track',
+};
+
+export const formatKey = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
@@ -0,0 +1,67 @@
+import { CapturedSlitScan } from '../types';
+import { SLIT_SCAN_CHUNK_COLUMNS, SLIT_SCAN_MAX_COLUMNS } from '../constants';
+
+export interface SlitScanRecorder {
+  push: (line: Uint8ClampedArray, timestamp: number) => void; // RGBA pixels along the line
+  flush: () => void;
+}
+
+const encodeChunk = (chunk: ImageData, columns: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = columns;
+    canvas.height = chunk.height;
+    canvas.getContext('2d')?.putImageData(chunk, 0, 0);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('JPEG encoding failed'))), 'image/jpeg', 0.9);
+  });
+
+// Appends one line of pixels per frame as a new column. Full chunks are encoded as soon as
+// they fill up; flush encodes the rest and hands over the strip.
+export function createSlitScanRecorder(onFlush: (scan: CapturedSlitScan) => void): SlitScanRecorder {
+  let height = 0;
+  let chunk: ImageData | null = null;
+  let column = 0;
+  let timestamps: number[] = [];
+  let encoded: Promise<Blob>[] = [];
+
+  const flush = () => {
+    if (timestamps.length === 0) return;
+    if (chunk && column > 0) encoded.push(encodeChunk(chunk, column));
+    const scan = { height, chunkColumns: SLIT_SCAN_CHUNK_COLUMNS, timestamps };
+    Promise.all(encoded)
+      .then(chunks => onFlush({ ...scan, chunks }))
+      .catch((e) => console.warn('Slit-scan encoding failed:', e));
+    chunk = null;
+    column = 0;
+    timestamps = [];
+    encoded = [];
+  };
+
+  return {
+    push: (line, timestamp) => {
+      const lineHeight = line.length / 4;
+      // A resized zone starts a new strip; columns of different heights can't share one
+      if (timestamps.length > 0 && lineHeight !== height) flush();
+      if (timestamps.length >= SLIT_SCAN_MAX_COLUMNS) return;
+      height = lineHeight;
+
+      if (!chunk) chunk = new ImageData(SLIT_SCAN_CHUNK_COLUMNS, height);
+      for (let y = 0; y < height; y++) {
+        const dst = (y * SLIT_SCAN_CHUNK_COLUMNS + column) * 4;
+        chunk.data[dst] = line[y * 4];
+        chunk.data[dst + 1] = line[y * 4 + 1];
+        chunk.data[dst + 2] = line[y * 4 + 2];
+        chunk.data[dst + 3] = 255;
+      }
+      timestamps.push(timestamp);
+      column++;
+
+      if (column === SLIT_SCAN_CHUNK_COLUMNS) {
+        encoded.push(encodeChunk(chunk, column));
+        chunk = null;
+        column = 0;
+      }
+    },
+    flush,
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { GateParams, GateThresholds, IDLE_GATE, TriggerGate, getExitThreshold, stepTriggerGate } from './triggerGate';
+
+const thresholds: GateThresholds = { enter: 10, exit: 6 };
+const params: GateParams = { minFrames: 2, minChangedArea: 0.1, interpolateWithin: 0 };
+
+// Runs the gate over (value, changed) samples 40 ms apart; returns the final gate and which frames confirmed
+const run = (samples: [number, number][], gateParams = params) => {
+  let gate: TriggerGate = IDLE_GATE;
+  const confirmed = samples.map(([value, changed], i) => {
+    const step = stepTriggerGate(gate, { value, changed, time: i * 40 }, thresholds, gateParams);
+    gate = step.gate;
+    return step.confirmed;
+  });
+  return { gate, confirmed };
+};
+
+describe('stepTriggerGate', () => {
+  it('stays idle below the enter threshold', () => {
+    expect(run([[9, 1], [9, 1]]).gate.frames).toBe(0);
+  });
+
+  it('ignores a high score over too small an area', () => {
+    expect(run([[50, 0.05], [50, 0.05]]).gate.frames).toBe(0);
+  });
+
+  it('confirms once the motion has lasted minFrames, and only once', () => {
+    expect(run([[20, 1], [20, 1], [20, 1], [20, 1]]).confirmed).toEqual([false, true, false, false]);
+  });
+
+  it('holds the motion between the exit and enter thresholds', () => {
+    const { gate, confirmed } = run([[20, 1], [7, 0], [7, 0]]);
+    expect(gate.frames).toBe(3);
+    expect(confirmed).toEqual([false, true, false]);
+  });
+
+  it('ends the motion below the exit threshold, so the next stretch counts again', () => {
+    expect(run([[20, 1], [20, 1], [5, 0], [20, 1], [20, 1]]).confirmed).toEqual([false, true, false, false, true]);
+  });
+
+  it('dates the motion to the first frame in motion', () => {
+    expect(run([[0, 0], [0, 0], [20, 1], [20, 1]]).gate.since).toBe(80);
+  });
+
+  it('interpolates the start between frames when they are close enough', () => {
+    // 0 at 40 ms, 20 at 80 ms: the enter threshold of 10 is passed halfway, at 60 ms
+    expect(run([[0, 0], [0, 0], [20, 1]], { ...params, interpolateWithin: 100 }).gate.since).toBe(60);
+    expect(run([[0, 0], [0, 0], [20, 1]], { ...params, interpolateWithin: 30 }).gate.since).toBe(80);
+  });
+});
+
+describe('getExitThreshold', () => {
+  it('lies the given fraction of the way from the quiet level to the enter threshold', () => {
+    expect(getExitThreshold(10, 2, 0.5)).toBe(6);
+    expect(getExitThreshold(10, 0, 1)).toBe(10);
+  });
+});
@@ -0,0 +1,58 @@
+import { FrameSample, interpolateCrossing } from './frameTiming';
+
+// Trigger confirmation for one score (a zone, or one half of it). Motion starts when the score
+// rises above the enter threshold over enough of the zone, and lasts until it falls below the
+// lower exit threshold, so a score hovering around the threshold doesn't flicker. It counts once
+// it has lasted minFrames frames, and only once per stretch of motion.
+export interface TriggerGate {
+  frames: number; // Consecutive frames in motion; 0 when idle
+  since: number; // When the motion started, interpolated between frames where possible
+  fired: boolean; // This stretch of motion has already been confirmed
+  previous: FrameSample | null;
+}
+
+export interface GateSample extends FrameSample {
+  changed: number; // Fraction of the pixels that changed
+}
+
+export interface GateThresholds {
+  enter: number;
+  exit: number;
+}
+
+export interface GateParams {
+  minFrames: number;
+  minChangedArea: number;
+  interpolateWithin: number; // Largest frame gap, in ms, to interpolate the start across; 0 disables it
+}
+
+export const IDLE_GATE: TriggerGate = { frames: 0, since: 0, fired: false, previous: null };
+
+// Exit threshold the given fraction of the way from the quiet level up to the enter threshold
+export const getExitThreshold = (enter: number, base: number, exitRatio: number) =>
+  base + exitRatio * (enter - base);
+
+// Returns the next state and whether the motion was confirmed on this frame
+export function stepTriggerGate(
+  gate: TriggerGate,
+  sample: GateSample,
+  thresholds: GateThresholds,
+  params: GateParams
+): { gate: TriggerGate; confirmed: boolean } {
+  const { previous } = gate;
+  const current = { value: sample.value, time: sample.time };
+  const inMotion = gate.frames > 0
+    ? sample.value >= thresholds.exit
+    : sample.value > thresholds.enter && sample.changed >= params.minChangedArea;
+
+  if (!inMotion) return { gate: { ...IDLE_GATE, previous: current }, confirmed: false };
+
+  let since = gate.since;
+  if (gate.frames === 0) {
+    const canInterpolate = previous && params.interpolateWithin > 0 && sample.time - previous.time < params.interpolateWithin;
+    since = canInterpolate ? interpolateCrossing(previous, current, thresholds.enter) : sample.time;
+  }
+  const frames = gate.frames + 1;
+  const confirmed = !gate.fired && frames >= params.minFrames;
+  return { gate: { frames, since, fired: gate.fired || confirmed, previous: current }, confirmed };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { IntervalWorkout, Lap } from '../types';
+import { computeSetStats, describeWorkout, getNextPhase, getPhaseEndsAt, isWorkPhaseComplete } from './workout';
+
+const workout: IntervalWorkout = { sets: 2, workType: 'laps', workLaps: 2, workSeconds: 60, restSeconds: 30 };
+const timed: IntervalWorkout = { ...workout, workType: 'time' };
+
+const lap = (id: string, timestamp: number, duration: number, set: number): Lap => ({ id, timestamp, duration, set });
+
+describe('workout phases', () => {
+  it('goes work, rest, work, then done without a trailing rest', () => {
+    const rest = getNextPhase({ setIndex: 0, kind: 'work', startedAt: 0 }, workout, 100);
+    expect(rest).toEqual({ setIndex: 0, kind: 'rest', startedAt: 100 });
+    const work = getNextPhase(rest, workout, 200);
+    expect(work).toEqual({ setIndex: 1, kind: 'work', startedAt: 200 });
+    expect(getNextPhase(work, workout, 300)).toEqual({ setIndex: 1, kind: 'done', startedAt: 300 });
+  });
+
+  it('runs sets back to back without rest', () => {
+    expect(getNextPhase({ setIndex: 0, kind: 'work', startedAt: 0 }, { ...workout, restSeconds: 0 }, 100))
+      .toEqual({ setIndex: 1, kind: 'work', startedAt: 100 });
+  });
+
+  it('ends rest and timed work on the clock; lap work has no fixed end', () => {
+    expect(getPhaseEndsAt({ setIndex: 0, kind: 'rest', startedAt: 1000 }, workout)).toBe(31000);
+    expect(getPhaseEndsAt({ setIndex: 0, kind: 'work', startedAt: 1000 }, timed)).toBe(61000);
+    expect(getPhaseEndsAt({ setIndex: 0, kind: 'work', startedAt: 1000 }, workout)).toBeNull();
+  });
+
+  it('completes lap work on the set’s lap count', () => {
+    const phase = { setIndex: 1, kind: 'work' as const, startedAt: 0 };
+    const laps = [lap('s', 0, 0, 0), lap('a', 10, 10, 0), lap('b', 20, 10, 0), lap('c', 30, 10, 1)];
+    expect(isWorkPhaseComplete(phase, workout, laps)).toBe(false);
+    expect(isWorkPhaseComplete(phase, workout, [...laps, lap('d', 40, 10, 1)])).toBe(true);
+  });
+
+  it('completes timed work when its time is up', () => {
+    const phase = { setIndex: 0, kind: 'work' as const, startedAt: 0 };
+    expect(isWorkPhaseComplete(phase, timed, [], 59999)).toBe(false);
+    expect(isWorkPhaseComplete(phase, timed, [], 60000)).toBe(true);
+  });
+});
+
+describe('workout stats', () => {
+  it('computes each set’s laps on their own', () => {
+    const laps = [lap('s', 0, 0, 0), lap('a', 10, 10, 0), lap('b', 30, 20, 0), lap('c', 60, 30, 1)];
+    expect(computeSetStats(laps, 2)).toEqual([
+      { setIndex: 0, count: 2, average: 15, fastest: 10 },
+      { setIndex: 1, count: 1, average: 30, fastest: 30 },
+    ]);
+  });
+
+  it('describes the workout', () => {
+    expect(describeWorkout(workout)).toBe('2 × (2 laps, 30 s rest)');
+    expect(describeWorkout({ ...timed, restSeconds: 0 })).toBe('2 × (60 s)');
+  });
+});
@@ -0,0 +1,44 @@
+import { IntervalWorkout, Lap, SetStats, WorkoutPhase } from '../types';
+import { computeLapStats, getCompletedLaps } from './lapStats';
+import { clockNow } from './frameTiming';
+
+export const getSetLaps = (laps: Lap[], setIndex: number) =>
+  getCompletedLaps(laps).filter(l => l.set === setIndex);
+
+// Rest and timed work phases end on the clock; lap-count work phases have no fixed end
+export function getPhaseEndsAt(phase: WorkoutPhase, workout: IntervalWorkout): number | null {
+  if (phase.kind === 'rest') return phase.startedAt + workout.restSeconds * 1000;
+  if (phase.kind === 'work' && workout.workType === 'time') return phase.startedAt + workout.workSeconds * 1000;
+  return null;
+}
+
+export function isWorkPhaseComplete(phase: WorkoutPhase, workout: IntervalWorkout, laps: Lap[], now = clockNow()) {
+  if (phase.kind !== 'work') return false;
+  if (workout.workType === 'laps') return getSetLaps(laps, phase.setIndex).length >= workout.workLaps;
+  return now >= (getPhaseEndsAt(phase, workout) ?? Infinity);
+}
+
+// Work is followed by rest (skipped when restSeconds is 0), rest by the next set's work;
+// the last set's work ends the workout without a trailing rest
+export function getNextPhase(phase: WorkoutPhase, workout: IntervalWorkout, endedAt: number): WorkoutPhase {
+  const isLastSet = phase.setIndex >= workout.sets - 1;
+  if (phase.kind === 'work') {
+    if (isLastSet) return { setIndex: phase.setIndex, kind: 'done', startedAt: endedAt };
+    if (workout.restSeconds > 0) return { setIndex: phase.setIndex, kind: 'rest', startedAt: endedAt };
+  }
+  return { setIndex: phase.setIndex + 1, kind: 'work', startedAt: endedAt };
+}
+
+export function computeSetStats(laps: Lap[], sets: number): SetStats[] {
+  return Array.from({ length: sets }, (_, setIndex) => {
+    const { count, average, fastest } = computeLapStats(getSetLaps(laps, setIndex), 0, 0);
+    return { setIndex, count, average, fastest };
+  });
+}
+
+export const describeWorkout = (workout: IntervalWorkout) => {
+  const work = workout.workType === 'laps'
+    ? `${workout.workLaps} ${workout.workLaps === 1 ? 'lap' : 'laps'}`
+    : `${workout.workSeconds} s`;
+  return `${workout.sets} × (${work}${workout.restSeconds > 0 ? `, ${workout.restSeconds} s rest` : ''})`;
+};